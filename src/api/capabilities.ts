@@ -0,0 +1,127 @@
+import * as vscode from 'vscode';
+import { HealthCheckResponse, ServerFeature } from './types';
+
+/**
+ * Oldest server version this extension is known to work with
+ */
+export const MIN_SERVER_VERSION = '1.0.0';
+
+// Features assumed when a server does not advertise a feature list (older servers)
+const BASELINE_FEATURES: string[] = [ServerFeature.SCENARIOS, ServerFeature.AST_ANALYSIS];
+
+// Context keys used in the `when` clauses of commands, menus and keybindings
+const CONTEXT_KEYS: Record<ServerFeature, string> = {
+    [ServerFeature.SCENARIOS]: 'javaTestGenerator.supports.scenarios',
+    [ServerFeature.AST_ANALYSIS]: 'javaTestGenerator.supports.analyze',
+    [ServerFeature.STREAMING]: 'javaTestGenerator.supports.streaming',
+    [ServerFeature.JOBS]: 'javaTestGenerator.supports.jobs',
+    [ServerFeature.SELF_HEALING]: 'javaTestGenerator.supports.selfHealing',
+    [ServerFeature.MODELS]: 'javaTestGenerator.supports.models'
+};
+
+/**
+ * Caches the feature list and version reported by the last health check
+ * and mirrors them into context keys
+ */
+export class ServerCapabilities {
+    private features = new Set<string>(BASELINE_FEATURES);
+    private version: string | undefined;
+    private known = false;
+    private onChangeEmitter = new vscode.EventEmitter<void>();
+
+    public readonly onDidChange = this.onChangeEmitter.event;
+
+    constructor() {
+        this.updateContextKeys();
+    }
+
+    /**
+     * Updates the cache from a health check response
+     */
+    public update(health: HealthCheckResponse): void {
+        this.version = health.version;
+        this.features = new Set(health.features ?? BASELINE_FEATURES);
+        this.known = true;
+        this.updateContextKeys();
+        this.onChangeEmitter.fire();
+    }
+
+    /**
+     * Forgets the cached capabilities (e.g. when the server URL changes)
+     */
+    public reset(): void {
+        this.version = undefined;
+        this.features = new Set(BASELINE_FEATURES);
+        this.known = false;
+        this.updateContextKeys();
+        this.onChangeEmitter.fire();
+    }
+
+    /**
+     * Whether a health check has succeeded since the last reset
+     */
+    public isKnown(): boolean {
+        return this.known;
+    }
+
+    public has(feature: ServerFeature): boolean {
+        return this.features.has(feature);
+    }
+
+    public getFeatures(): string[] {
+        return [...this.features];
+    }
+
+    public getVersion(): string | undefined {
+        return this.version;
+    }
+
+    /**
+     * Checks the server version against MIN_SERVER_VERSION.
+     * Unknown or non-numeric versions (e.g. development builds) are accepted.
+     */
+    public isVersionSupported(): boolean {
+        if (!this.version) {
+            return true;
+        }
+        const comparison = compareVersions(this.version, MIN_SERVER_VERSION);
+        return comparison === undefined || comparison >= 0;
+    }
+
+    private updateContextKeys(): void {
+        for (const feature of Object.values(ServerFeature)) {
+            vscode.commands.executeCommand('setContext', CONTEXT_KEYS[feature], this.features.has(feature));
+        }
+    }
+
+    /**
+     * Disposes of resources
+     */
+    public dispose(): void {
+        this.onChangeEmitter.dispose();
+    }
+}
+
+/**
+ * Compares two dotted version strings ("1.2.0", "v2.0"), returning a
+ * negative number, zero or a positive number, or undefined if either
+ * version is not numeric
+ */
+export function compareVersions(a: string, b: string): number | undefined {
+    const parse = (version: string) => version.replace(/^v/i, '').split(/[.-]/).slice(0, 3).map(Number);
+    const left = parse(a);
+    const right = parse(b);
+
+    if ([...left, ...right].some(isNaN)) {
+        return undefined;
+    }
+
+    for (let i = 0; i < 3; i++) {
+        const diff = (left[i] ?? 0) - (right[i] ?? 0);
+        if (diff !== 0) {
+            return diff;
+        }
+    }
+
+    return 0;
+}
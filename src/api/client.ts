@@ -1,5 +1,23 @@
-import axios, { AxiosInstance, AxiosError } from 'axios';
+import * as vscode from 'vscode';
+import axios, { AxiosInstance, AxiosError, InternalAxiosRequestConfig } from 'axios';
 import { SettingsManager } from '../config/settings';
+import { ApiKeyAuthProvider, AuthProvider } from '../auth/authProvider';
+import { CacheOptions, ResponseCache } from './responseCache';
+import { ServerCapabilities } from './capabilities';
+import { createConnectionConfig, getNetworkLayerError, NetworkOptions } from './network';
+import {
+    analyzeResponseSchema,
+    apiErrorResponseSchema,
+    generateScenariosResponseSchema,
+    generateTestResponseSchema,
+    healthCheckResponseSchema,
+    jobStatusResponseSchema,
+    modelListResponseSchema,
+    orErrorResponse,
+    streamChunkSchema,
+    submitJobResponseSchema,
+    validateResponse
+} from './validation';
 import {
     GenerateTestRequest,
     GenerateTestResponse,
@@ -9,32 +27,77 @@ import {
     AnalyzeResponse,
     HealthCheckResponse,
     ApiErrorResponse,
-    ApiErrorCode
+    ApiErrorCode,
+    ServerFeature,
+    GenerateTestStreamEvent,
+    SubmitJobResponse,
+    JobStatusResponse,
+    FixTestRequest,
+    ModelListResponse
 } from './types';
 import {
     ApiError,
-    ApiKeyError,
     ServerConnectionError,
     TestGenerationError,
     JavaSyntaxError,
     RateLimitError,
-    TimeoutError
+    TimeoutError,
+    RequestCancelledError,
+    PayloadTooLargeError,
+    RequestDiagnostics
 } from './errors';
 
 /**
- * HTTP client for communicating with the Test Generator API
+ * Information about a request that is about to be retried
+ */
+export interface RetryEvent {
+    attempt: number;
+    maxAttempts: number;
+    delay: number;
+    reason: string;
+}
+
+/**
+ * HTTP client for communicating with the Test Generator API.
+ * Every request method accepts an optional AbortSignal that aborts the
+ * underlying HTTP call and rejects with RequestCancelledError.
  */
 export class ApiClient {
+    // Upper bound for a single retry wait, longer Retry-After values are not waited for
+    private static readonly MAX_RETRY_DELAY = 60000;
+    private static readonly JOB_POLL_INTERVAL = 2000;
+
     private client: AxiosInstance;
     private settings: SettingsManager;
+    private auth: AuthProvider;
+    private cache: ResponseCache | undefined;
+    private networkOptions: NetworkOptions = { strictSSL: true };
+    private onRetryEmitter = new vscode.EventEmitter<RetryEvent>();
+
+    public readonly onDidRetry = this.onRetryEmitter.event;
+
+    // Features and version reported by the last successful health check
+    public readonly capabilities = new ServerCapabilities();
 
-    constructor(settings: SettingsManager) {
+    constructor(
+        settings: SettingsManager,
+        auth: AuthProvider = new ApiKeyAuthProvider(settings),
+        cache?: ResponseCache
+    ) {
         this.settings = settings;
+        this.auth = auth;
+        this.cache = cache;
         this.client = this.createClient();
 
         // Recreate client when settings change
         settings.onDidChange(() => {
+            const previousBaseUrl = this.getBaseUrl();
             this.client = this.createClient();
+
+            // A different server may support a different feature set
+            if (this.getBaseUrl() !== previousBaseUrl) {
+                this.capabilities.reset();
+            }
         });
     }
 
@@ -43,18 +106,54 @@ export class ApiClient {
      */
     private createClient(): AxiosInstance {
         const baseURL = this.settings.getApiUrl();
-        const apiKey = this.settings.getApiKey();
         const timeout = this.settings.getTimeout();
+        this.networkOptions = this.settings.getNetworkOptions();
+
+        // Proxy and TLS configuration errors surface on the first request
+        let connectionConfig: ReturnType<typeof createConnectionConfig> = {};
+        let connectionError: Error | undefined;
+        try {
+            connectionConfig = createConnectionConfig(baseURL, this.networkOptions);
+        } catch (error) {
+            connectionError = error as Error;
+        }
 
         const instance = axios.create({
             baseURL,
             timeout,
+            ...connectionConfig,
             headers: {
-                'Content-Type': 'application/json',
-                ...(apiKey && { 'X-API-Key': apiKey })
+                'Content-Type': 'application/json'
             }
         });
 
+        if (connectionError) {
+            const error = connectionError;
+            instance.interceptors.request.use(() => Promise.reject(error));
+        }
+
+        // Authenticate every request with the current credentials
+        instance.interceptors.request.use(async (config) => {
+            config.headers.set(await this.auth.getHeaders());
+            return config;
+        });
+
+        // On 401 renew the credentials and retry once
+        instance.interceptors.response.use(
+            (response) => response,
+            async (error) => {
+                const config = error.config as (InternalAxiosRequestConfig & { authRetried?: boolean }) | undefined;
+                if (error.response?.status !== 401 || !config || config.authRetried) {
+                    return Promise.reject(error);
+                }
+                if (!(await this.auth.refresh())) {
+                    return Promise.reject(error);
+                }
+                config.authRetried = true;
+                return instance.request(config);
+            }
+        );
+
         // Add response interceptor for logging
         instance.interceptors.response.use(
             (response) => response,
@@ -67,93 +166,549 @@ export class ApiClient {
         return instance;
     }
 
+    /**
+     * Sends a request, retrying rate limits (429), transient server errors
+     * (502, 503) and dropped connections according to the retry settings
+     */
+    private async withRetry<T>(send: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+        const maxAttempts = this.settings.getMaxRetries() + 1;
+
+        for (let attempt = 1; ; attempt++) {
+            try {
+                return await send();
+            } catch (error) {
+                const retry = attempt < maxAttempts ? this.getRetryDelay(error, attempt) : undefined;
+                if (!retry) {
+                    throw error;
+                }
+
+                this.onRetryEmitter.fire({
+                    attempt: attempt + 1,
+                    maxAttempts,
+                    delay: retry.delay,
+                    reason: retry.reason
+                });
+
+                await waitFor(retry.delay, signal);
+            }
+        }
+    }
+
+    /**
+     * Determines how long to wait before retrying a failed request.
+     * Returns undefined when the error must not be retried.
+     */
+    private getRetryDelay(error: unknown, attempt: number): { delay: number; reason: string } | undefined {
+        if (!axios.isAxiosError(error) || axios.isCancel(error)) {
+            return undefined;
+        }
+
+        const status = error.response?.status;
+
+        if (status === 429) {
+            const retryAfter = parseRetryAfter(error.response?.headers['retry-after']);
+            const delay = retryAfter ?? this.getBackoffDelay(attempt);
+            // Surface long rate limit windows instead of blocking the user
+            return delay <= ApiClient.MAX_RETRY_DELAY
+                ? { delay, reason: 'Rate limit exceeded' }
+                : undefined;
+        }
+
+        if (status === 502 || status === 503) {
+            return { delay: this.getBackoffDelay(attempt), reason: `Server returned ${status}` };
+        }
+
+        if (!error.response && error.code === 'ECONNRESET') {
+            return { delay: this.getBackoffDelay(attempt), reason: 'Connection reset' };
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Exponential backoff with jitter (between half and the full delay)
+     */
+    private getBackoffDelay(attempt: number): number {
+        const exponential = this.settings.getRetryBaseDelay() * Math.pow(2, attempt - 1);
+        const capped = Math.min(exponential, ApiClient.MAX_RETRY_DELAY);
+        return Math.round(capped / 2 + Math.random() * capped / 2);
+    }
+
     /**
      * Checks if the API server is healthy
      */
-    public async healthCheck(): Promise<HealthCheckResponse> {
+    public async healthCheck(signal?: AbortSignal): Promise<HealthCheckResponse> {
         try {
-            const response = await this.client.get<HealthCheckResponse>('/health');
-            return response.data;
+            const response = await this.client.get<HealthCheckResponse>('/health', { signal });
+            const data = validateResponse<HealthCheckResponse>(
+                healthCheckResponseSchema,
+                response.data,
+                getRequestId(response.headers)
+            );
+            this.capabilities.update(data);
+            return data;
         } catch (error) {
-            throw this.handleError(error as AxiosError);
+            throw this.handleError(error as AxiosError, 'GET /health');
         }
     }
 
     /**
      * Checks if the server is reachable (returns boolean)
      */
-    public async isServerReachable(): Promise<boolean> {
+    public async isServerReachable(signal?: AbortSignal): Promise<boolean> {
         try {
-            const response = await this.healthCheck();
+            const response = await this.healthCheck(signal);
             return response.status === 'healthy';
         } catch {
             return false;
         }
     }
 
+    /**
+     * Serves a response from the local cache, or sends the request and
+     * caches its successful response. Requests with identical content
+     * (source, dependencies, options, selected methods, scenarios) for the
+     * same endpoint and server share an entry. Cache failures never fail
+     * the request.
+     */
+    public async withCache<T>(
+        endpoint: string,
+        request: object,
+        options: CacheOptions,
+        send: () => Promise<T>
+    ): Promise<T> {
+        const cache = this.cache;
+        if (!cache?.isEnabled()) {
+            return send();
+        }
+
+        const key = ResponseCache.computeKey(endpoint, this.getBaseUrl(), request);
+        if (!options.bypass) {
+            const cached = await cache.get<T>(key);
+            if (cached !== undefined) {
+                options.onHit?.();
+                return cached;
+            }
+        }
+
+        const response = await send();
+        cache.put(key, response).catch(() => undefined);
+        return response;
+    }
+
     /**
      * Generates a unit test for the given source file
      */
-    public async generateTest(request: GenerateTestRequest): Promise<GenerateTestResponse> {
+    public generateTest(
+        request: GenerateTestRequest,
+        signal?: AbortSignal,
+        cache: CacheOptions = {}
+    ): Promise<GenerateTestResponse> {
+        return this.withCache('/generate-test', request, cache, () => this.postGenerateTest(request, signal));
+    }
+
+    private async postGenerateTest(request: GenerateTestRequest, signal?: AbortSignal): Promise<GenerateTestResponse> {
         try {
-            const response = await this.client.post<GenerateTestResponse | ApiErrorResponse>(
+            const response = await this.withRetry(() => this.client.post<GenerateTestResponse | ApiErrorResponse>(
                 '/generate-test',
+                request,
+                { signal }
+            ), signal);
+
+            const data = validateResponse<GenerateTestResponse | ApiErrorResponse>(
+                orErrorResponse(generateTestResponseSchema),
+                response.data,
+                getRequestId(response.headers)
+            );
+
+            if (!data.success) {
+                throw ApiError.fromApiError(data.error);
+            }
+
+            return data;
+        } catch (error) {
+            throw this.handleError(error as AxiosError, 'POST /generate-test', request);
+        }
+    }
+
+    /**
+     * Generates a unit test while streaming the test code as it is produced.
+     * Falls back to the blocking generateTest call when the server does not
+     * advertise streaming support.
+     */
+    public generateTestStream(
+        request: GenerateTestRequest,
+        onChunk: (content: string) => void,
+        signal?: AbortSignal,
+        cache: CacheOptions = {}
+    ): Promise<GenerateTestResponse> {
+        // Streamed and blocking generation produce the same response
+        return this.withCache('/generate-test', request, cache, () => this.postGenerateTestStream(request, onChunk, signal));
+    }
+
+    private async postGenerateTestStream(
+        request: GenerateTestRequest,
+        onChunk: (content: string) => void,
+        signal?: AbortSignal
+    ): Promise<GenerateTestResponse> {
+        if (!(await this.supportsFeature(ServerFeature.STREAMING, signal))) {
+            return this.postGenerateTest(request, signal);
+        }
+
+        let stream: AsyncIterable<Buffer>;
+        let requestId: string | undefined;
+        try {
+            const response = await this.withRetry(() => this.client.post<AsyncIterable<Buffer>>(
+                '/generate-test/stream',
+                request,
+                {
+                    responseType: 'stream',
+                    headers: { Accept: 'text/event-stream' },
+                    signal
+                }
+            ), signal);
+            stream = response.data;
+            requestId = getRequestId(response.headers);
+        } catch (error) {
+            throw this.handleError(error as AxiosError, 'POST /generate-test/stream', request);
+        }
+
+        const decoder = new TextDecoder();
+        let buffer = '';
+
+        try {
+            for await (const data of stream) {
+                buffer += decoder.decode(data, { stream: true }).replace(/\r\n/g, '\n');
+
+                let boundary: number;
+                while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+                    const event = parseStreamEvent(buffer.substring(0, boundary));
+                    buffer = buffer.substring(boundary + 2);
+
+                    if (!event) {
+                        continue;
+                    }
+
+                    switch (event.event) {
+                        case 'chunk':
+                            validateResponse(streamChunkSchema, event.data, requestId);
+                            onChunk(event.data.content);
+                            break;
+                        case 'done':
+                            return validateResponse<GenerateTestResponse>(generateTestResponseSchema, event.data, requestId);
+                        case 'error':
+                            throw ApiError.fromApiError(
+                                validateResponse<ApiErrorResponse>(apiErrorResponseSchema, event.data, requestId).error
+                            );
+                    }
+                }
+            }
+        } catch (error) {
+            throw this.addDiagnostics(toStreamError(error, signal), {
+                endpoint: 'POST /generate-test/stream',
+                requestId,
                 request
+            });
+        }
+
+        throw this.addDiagnostics(new TestGenerationError('Server closed the stream before the test was complete'), {
+            endpoint: 'POST /generate-test/stream',
+            requestId,
+            request
+        });
+    }
+
+    /**
+     * Sends a failing test with its failure output and gets a corrected version
+     */
+    public async fixTest(request: FixTestRequest, signal?: AbortSignal): Promise<GenerateTestResponse> {
+        try {
+            const response = await this.withRetry(() => this.client.post<GenerateTestResponse | ApiErrorResponse>(
+                '/fix-test',
+                request,
+                { signal }
+            ), signal);
+
+            const data = validateResponse<GenerateTestResponse | ApiErrorResponse>(
+                orErrorResponse(generateTestResponseSchema),
+                response.data,
+                getRequestId(response.headers)
+            );
+
+            if (!data.success) {
+                throw ApiError.fromApiError(data.error);
+            }
+
+            return data;
+        } catch (error) {
+            throw this.handleError(error as AxiosError, 'POST /fix-test', request);
+        }
+    }
+
+    /**
+     * Submits a test generation job that keeps running on the server
+     * independently of this connection
+     */
+    public async submitTestJob(request: GenerateTestRequest, signal?: AbortSignal): Promise<SubmitJobResponse> {
+        try {
+            const response = await this.withRetry(() => this.client.post<SubmitJobResponse | ApiErrorResponse>(
+                '/jobs/generate-test',
+                request,
+                { signal }
+            ), signal);
+
+            const data = validateResponse<SubmitJobResponse | ApiErrorResponse>(
+                orErrorResponse(submitJobResponseSchema),
+                response.data,
+                getRequestId(response.headers)
+            );
+
+            if (!data.success) {
+                throw ApiError.fromApiError(data.error);
+            }
+
+            return data;
+        } catch (error) {
+            throw this.handleError(error as AxiosError, 'POST /jobs/generate-test', request);
+        }
+    }
+
+    /**
+     * Gets the current status of a generation job
+     */
+    public async getJobStatus(jobId: string, signal?: AbortSignal): Promise<JobStatusResponse> {
+        try {
+            const response = await this.withRetry(() => this.client.get<JobStatusResponse | ApiErrorResponse>(
+                `/jobs/${encodeURIComponent(jobId)}`,
+                { signal }
+            ), signal);
+
+            const data = validateResponse<JobStatusResponse | ApiErrorResponse>(
+                orErrorResponse(jobStatusResponseSchema),
+                response.data,
+                getRequestId(response.headers)
             );
 
-            const data = response.data;
+            if (!data.success) {
+                throw ApiError.fromApiError(data.error);
+            }
+
+            return data;
+        } catch (error) {
+            throw this.handleError(error as AxiosError, `GET /jobs/${jobId}`);
+        }
+    }
+
+    /**
+     * Fetches the result of a completed generation job
+     */
+    public async getJobResult(jobId: string, signal?: AbortSignal): Promise<GenerateTestResponse> {
+        try {
+            const response = await this.withRetry(() => this.client.get<GenerateTestResponse | ApiErrorResponse>(
+                `/jobs/${encodeURIComponent(jobId)}/result`,
+                { signal }
+            ), signal);
+
+            const data = validateResponse<GenerateTestResponse | ApiErrorResponse>(
+                orErrorResponse(generateTestResponseSchema),
+                response.data,
+                getRequestId(response.headers)
+            );
 
             if (!data.success) {
-                throw ApiError.fromApiError((data as ApiErrorResponse).error);
+                throw ApiError.fromApiError(data.error);
             }
 
-            return data as GenerateTestResponse;
+            return data;
         } catch (error) {
-            throw this.handleError(error as AxiosError);
+            throw this.handleError(error as AxiosError, `GET /jobs/${jobId}/result`);
+        }
+    }
+
+    /**
+     * Cancels a generation job on the server
+     */
+    public async cancelJob(jobId: string): Promise<void> {
+        try {
+            await this.client.delete(`/jobs/${encodeURIComponent(jobId)}`);
+        } catch (error) {
+            throw this.handleError(error as AxiosError, `DELETE /jobs/${jobId}`);
+        }
+    }
+
+    /**
+     * Polls a generation job until it finishes and returns its result
+     */
+    public async waitForJob(
+        jobId: string,
+        onStatus?: (status: JobStatusResponse) => void,
+        signal?: AbortSignal
+    ): Promise<GenerateTestResponse> {
+        for (;;) {
+            const status = await this.getJobStatus(jobId, signal);
+            onStatus?.(status);
+
+            switch (status.status) {
+                case 'completed':
+                    return this.getJobResult(jobId, signal);
+                case 'failed':
+                    throw status.error
+                        ? ApiError.fromApiError(status.error)
+                        : new TestGenerationError('Generation job failed');
+                case 'cancelled':
+                    throw new TestGenerationError('Generation job was cancelled on the server');
+            }
+
+            await waitFor(ApiClient.JOB_POLL_INTERVAL, signal);
         }
     }
 
+    /**
+     * Checks whether the server advertises the given feature.
+     * Uses the cached capabilities and only runs a health check when the
+     * server has not been reached yet.
+     */
+    public async supportsFeature(feature: ServerFeature, signal?: AbortSignal): Promise<boolean> {
+        if (!this.capabilities.isKnown()) {
+            try {
+                await this.healthCheck(signal);
+            } catch (error) {
+                if (error instanceof RequestCancelledError) {
+                    throw error;
+                }
+                return false;
+            }
+        }
+        return this.capabilities.has(feature);
+    }
+
     /**
      * Generates test scenarios for the given source file
      */
-    public async generateScenarios(request: GenerateScenariosRequest): Promise<GenerateScenariosResponse> {
+    public generateScenarios(
+        request: GenerateScenariosRequest,
+        signal?: AbortSignal,
+        cache: CacheOptions = {}
+    ): Promise<GenerateScenariosResponse> {
+        return this.withCache('/generate-scenarios', request, cache, () => this.postGenerateScenarios(request, signal));
+    }
+
+    private async postGenerateScenarios(
+        request: GenerateScenariosRequest,
+        signal?: AbortSignal
+    ): Promise<GenerateScenariosResponse> {
         try {
-            const response = await this.client.post<GenerateScenariosResponse | ApiErrorResponse>(
+            const response = await this.withRetry(() => this.client.post<GenerateScenariosResponse | ApiErrorResponse>(
                 '/generate-scenarios',
-                request
+                request,
+                { signal }
+            ), signal);
+
+            const data = validateResponse<GenerateScenariosResponse | ApiErrorResponse>(
+                orErrorResponse(generateScenariosResponseSchema),
+                response.data,
+                getRequestId(response.headers)
             );
 
-            const data = response.data;
+            if (!data.success) {
+                throw ApiError.fromApiError(data.error);
+            }
+
+            return data;
+        } catch (error) {
+            throw this.handleError(error as AxiosError, 'POST /generate-scenarios', request);
+        }
+    }
+
+    /**
+     * Lists the models the server can generate with
+     */
+    public async listModels(signal?: AbortSignal): Promise<ModelListResponse> {
+        try {
+            const response = await this.withRetry(() => this.client.get<ModelListResponse | ApiErrorResponse>(
+                '/models',
+                { signal }
+            ), signal);
+
+            const data = validateResponse<ModelListResponse | ApiErrorResponse>(
+                orErrorResponse(modelListResponseSchema),
+                response.data,
+                getRequestId(response.headers)
+            );
 
             if (!data.success) {
-                throw ApiError.fromApiError((data as ApiErrorResponse).error);
+                throw ApiError.fromApiError(data.error);
             }
 
-            return data as GenerateScenariosResponse;
+            return data;
         } catch (error) {
-            throw this.handleError(error as AxiosError);
+            throw this.handleError(error as AxiosError, 'GET /models');
         }
     }
 
     /**
      * Analyzes Java source code
      */
-    public async analyze(request: AnalyzeRequest): Promise<AnalyzeResponse> {
+    public async analyze(request: AnalyzeRequest, signal?: AbortSignal): Promise<AnalyzeResponse> {
         try {
-            const response = await this.client.post<AnalyzeResponse>(
+            const response = await this.withRetry(() => this.client.post<AnalyzeResponse>(
                 '/analyze',
-                request
+                request,
+                { signal }
+            ), signal);
+            return validateResponse<AnalyzeResponse>(
+                orErrorResponse(analyzeResponseSchema),
+                response.data,
+                getRequestId(response.headers)
             );
-            return response.data;
         } catch (error) {
-            throw this.handleError(error as AxiosError);
+            throw this.handleError(error as AxiosError, 'POST /analyze', request);
         }
     }
 
     /**
      * Handles axios errors and converts them to appropriate custom errors
+     * that record the failed request for diagnostic reports
      */
-    private handleError(error: AxiosError<ApiErrorResponse | unknown>): Error {
+    private handleError(error: AxiosError<ApiErrorResponse | unknown>, endpoint: string, request?: unknown): Error {
+        const isHttpError = axios.isAxiosError(error);
+        return this.addDiagnostics(this.convertError(error), {
+            endpoint,
+            httpStatus: isHttpError ? error.response?.status : undefined,
+            requestId: isHttpError ? getRequestId(error.response?.headers) : undefined,
+            request
+        });
+    }
+
+    private addDiagnostics(error: Error, context: Omit<RequestDiagnostics, 'serverUrl' | 'timestamp'>): Error {
+        if (error instanceof ApiError && !error.diagnostics) {
+            error.diagnostics = {
+                ...context,
+                requestId: error.requestId || context.requestId,
+                serverUrl: this.getBaseUrl(),
+                timestamp: Date.now()
+            };
+        }
+        return error;
+    }
+
+    private convertError(error: AxiosError<ApiErrorResponse | unknown>): Error {
+        // Already converted (API error payloads, cancelled retry waits)
+        if (error instanceof ApiError) {
+            return error;
+        }
+
+        // Request aborted through its AbortSignal
+        if (axios.isCancel(error)) {
+            return new RequestCancelledError();
+        }
+
+        // Proxy, server certificate or client certificate failures
+        const networkError = getNetworkLayerError(error, this.networkOptions);
+        if (networkError) {
+            return networkError;
+        }
+
         // Network error or no response
         if (!error.response) {
             if (error.code === 'ECONNABORTED') {
@@ -177,13 +732,13 @@ export class ApiClient {
 
         switch (status) {
             case 401:
-                return new ApiKeyError(errorInfo?.message || 'Invalid or expired API key');
+                return this.auth.createUnauthorizedError(errorInfo?.message);
 
             case 429: {
-                const retryAfter = parseInt(error.response.headers['retry-after'] || '0');
+                const retryAfter = parseRetryAfter(error.response.headers['retry-after']);
                 return new RateLimitError(
                     errorInfo?.message || 'Rate limit exceeded',
-                    retryAfter > 0 ? retryAfter : undefined
+                    retryAfter ? Math.ceil(retryAfter / 1000) : undefined
                 );
             }
 
@@ -196,12 +751,21 @@ export class ApiClient {
                         details?.column
                     );
                 }
+                if (errorInfo?.code === ApiErrorCode.FILE_TOO_LARGE) {
+                    return new PayloadTooLargeError(errorInfo.message, errorInfo.requestId);
+                }
                 return new ApiError(
                     errorInfo?.message || 'Invalid request',
                     errorInfo?.code || 'BAD_REQUEST',
                     errorInfo?.requestId
                 );
 
+            case 413:
+                return new PayloadTooLargeError(
+                    errorInfo?.message || 'Request payload is too large',
+                    errorInfo?.requestId
+                );
+
             case 500:
             case 502:
             case 503:
@@ -226,4 +790,117 @@ export class ApiClient {
     public getBaseUrl(): string {
         return this.client.defaults.baseURL || '';
     }
+
+    /**
+     * Disposes of resources
+     */
+    public dispose(): void {
+        this.onRetryEmitter.dispose();
+        this.capabilities.dispose();
+    }
+}
+
+/**
+ * Converts an error raised while reading an event stream
+ */
+function toStreamError(error: unknown, signal?: AbortSignal): Error {
+    if (error instanceof ApiError) {
+        return error;
+    }
+    if (signal?.aborted) {
+        return new RequestCancelledError();
+    }
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return new ServerConnectionError(
+        `Stream interrupted: ${message}`,
+        error instanceof Error ? error : undefined
+    );
+}
+
+/**
+ * Reads the request ID the server assigned to a response, if any
+ */
+function getRequestId(headers: Record<string, unknown> | undefined): string | undefined {
+    const value = headers?.['x-request-id'];
+    return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Parses a Retry-After header (delay in seconds or an HTTP date) into milliseconds
+ */
+function parseRetryAfter(value: unknown): number | undefined {
+    if (typeof value !== 'string' || value.trim() === '') {
+        return undefined;
+    }
+
+    const seconds = Number(value);
+    if (!isNaN(seconds)) {
+        return seconds > 0 ? seconds * 1000 : undefined;
+    }
+
+    const date = Date.parse(value);
+    if (!isNaN(date)) {
+        const delay = date - Date.now();
+        return delay > 0 ? delay : undefined;
+    }
+
+    return undefined;
+}
+
+/**
+ * Waits for the given delay, rejecting early when the signal aborts
+ */
+function waitFor(delay: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new RequestCancelledError());
+            return;
+        }
+
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new RequestCancelledError());
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, delay);
+
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * Parses a single server-sent event block ("event:" and "data:" lines).
+ * Events without an explicit type are treated as chunks.
+ */
+function parseStreamEvent(block: string): GenerateTestStreamEvent | undefined {
+    let eventType = 'chunk';
+    const dataLines: string[] = [];
+
+    for (const line of block.split('\n')) {
+        // Lines starting with a colon are comments (keep-alive pings)
+        if (line.startsWith(':')) {
+            continue;
+        }
+        if (line.startsWith('event:')) {
+            eventType = line.substring(6).trim();
+        } else if (line.startsWith('data:')) {
+            dataLines.push(line.substring(5).replace(/^ /, ''));
+        }
+    }
+
+    if (dataLines.length === 0) {
+        return undefined;
+    }
+
+    try {
+        return {
+            event: eventType,
+            data: JSON.parse(dataLines.join('\n'))
+        } as GenerateTestStreamEvent;
+    } catch {
+        console.warn('[ApiClient] Ignoring malformed stream event:', block);
+        return undefined;
+    }
 }
@@ -1,5 +1,19 @@
 import { ApiErrorCode, ApiErrorInfo } from './types';
 
+/**
+ * The request that failed, recorded by ApiClient for diagnostic reports
+ */
+export interface RequestDiagnostics {
+    // HTTP method and path, e.g. "POST /generate-test"
+    endpoint: string;
+    serverUrl: string;
+    httpStatus?: number;
+    requestId?: string;
+    // Request body as sent, redacted when a report is built
+    request?: unknown;
+    timestamp: number;
+}
+
 /**
  * Base class for API-related errors
  */
@@ -7,6 +21,7 @@ export class ApiError extends Error {
     public readonly code: string;
     public readonly requestId?: string;
     public readonly details?: Record<string, unknown>;
+    public diagnostics?: RequestDiagnostics;
 
     constructor(message: string, code: string = 'UNKNOWN_ERROR', requestId?: string, details?: Record<string, unknown>) {
         super(message);
@@ -36,6 +51,16 @@ export class ApiKeyError extends ApiError {
     }
 }
 
+/**
+ * Error thrown when the OAuth session is missing, expired or revoked
+ */
+export class SessionExpiredError extends ApiKeyError {
+    constructor(message: string = 'Sign-in session is missing or expired') {
+        super(message);
+        this.name = 'SessionExpiredError';
+    }
+}
+
 /**
  * Error thrown when server connection fails
  */
@@ -49,6 +74,20 @@ export class ServerConnectionError extends ApiError {
     }
 }
 
+/**
+ * Error thrown when the proxy, the server certificate check or the
+ * client certificate prevents a connection
+ */
+export class NetworkLayerError extends ServerConnectionError {
+    public readonly layer: 'proxy' | 'ca' | 'client-certificate';
+
+    constructor(layer: NetworkLayerError['layer'], message: string, originalError?: Error) {
+        super(message, originalError);
+        this.name = 'NetworkLayerError';
+        this.layer = layer;
+    }
+}
+
 /**
  * Error thrown when test generation fails
  */
@@ -87,6 +126,29 @@ export class RateLimitError extends ApiError {
     }
 }
 
+/**
+ * Error thrown when the server rejects a request as too large
+ */
+export class PayloadTooLargeError extends ApiError {
+    constructor(message: string = 'Request payload is too large', requestId?: string) {
+        super(message, ApiErrorCode.FILE_TOO_LARGE, requestId);
+        this.name = 'PayloadTooLargeError';
+    }
+}
+
+/**
+ * Error thrown when a server response does not match the API contract
+ */
+export class ResponseValidationError extends ApiError {
+    public readonly field: string;
+
+    constructor(field: string, reason: string, requestId?: string) {
+        super(`Invalid server response: ${field} ${reason}`, ApiErrorCode.VALIDATION_FAILED, requestId, { field });
+        this.name = 'ResponseValidationError';
+        this.field = field;
+    }
+}
+
 /**
  * Error thrown when request times out
  */
@@ -97,14 +159,33 @@ export class TimeoutError extends ApiError {
     }
 }
 
+/**
+ * Error thrown when a request is cancelled by the user
+ */
+export class RequestCancelledError extends ApiError {
+    constructor(message: string = 'Request was cancelled') {
+        super(message, 'CANCELLED');
+        this.name = 'RequestCancelledError';
+    }
+}
+
 /**
  * Helper function to get user-friendly error message
  */
 export function getUserFriendlyErrorMessage(error: unknown): string {
+    if (error instanceof SessionExpiredError) {
+        return 'You are not signed in or your session has expired. Run "Test-AutoEvermation: Sign In" to sign in again.';
+    }
+
     if (error instanceof ApiKeyError) {
         return 'API key is invalid or not configured. Please check your settings.';
     }
 
+    if (error instanceof NetworkLayerError) {
+        const layers = { 'proxy': 'Proxy', 'ca': 'Server certificate', 'client-certificate': 'Client certificate' };
+        return `${layers[error.layer]} error: ${error.message}`;
+    }
+
     if (error instanceof ServerConnectionError) {
         return 'Cannot connect to the test generation server. Please check the API URL and your network connection.';
     }
@@ -125,6 +206,19 @@ export function getUserFriendlyErrorMessage(error: unknown): string {
         return 'Request timed out. The server might be busy. Please try again.';
     }
 
+    if (error instanceof PayloadTooLargeError) {
+        return 'The source file is too large for the server, even with reduced context. Try selecting fewer methods.';
+    }
+
+    if (error instanceof RequestCancelledError) {
+        return 'Request was cancelled.';
+    }
+
+    if (error instanceof ResponseValidationError) {
+        const requestMsg = error.requestId ? ` (request ID: ${error.requestId})` : '';
+        return `${error.message}${requestMsg}`;
+    }
+
     if (error instanceof TestGenerationError) {
         return `Test generation failed: ${error.message}`;
     }
@@ -0,0 +1,154 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { SettingsManager } from '../config/settings';
+
+/**
+ * Per-request cache control
+ */
+export interface CacheOptions {
+    // Skip the lookup and replace the cached response with a fresh one
+    bypass?: boolean;
+    // Called when the response is served from the cache
+    onHit?: () => void;
+}
+
+/**
+ * A cached response on disk
+ */
+interface CacheEntry<T> {
+    createdAt: number;
+    data: T;
+}
+
+/**
+ * Content-addressed cache of successful generation responses, stored as
+ * one file per request hash in the extension's global storage. The least
+ * recently used entries are evicted once the size limit is exceeded.
+ */
+export class ResponseCache {
+    private static readonly DIRECTORY = 'response-cache';
+
+    private directory: vscode.Uri;
+    private settings: SettingsManager;
+    // Serializes writes so that evictions do not race each other
+    private pending: Promise<void> = Promise.resolve();
+
+    constructor(storageUri: vscode.Uri, settings: SettingsManager) {
+        this.directory = vscode.Uri.joinPath(storageUri, ResponseCache.DIRECTORY);
+        this.settings = settings;
+    }
+
+    public isEnabled(): boolean {
+        return this.settings.isResponseCacheEnabled() && this.settings.getResponseCacheSize() > 0;
+    }
+
+    /**
+     * Hashes everything that determines a response: the endpoint, the server
+     * and the request (source, dependencies, options, selected methods, scenarios)
+     */
+    public static computeKey(endpoint: string, baseUrl: string, request: unknown): string {
+        return crypto
+            .createHash('sha256')
+            .update(stableStringify({ endpoint, baseUrl, request }))
+            .digest('hex');
+    }
+
+    public async get<T>(key: string): Promise<T | undefined> {
+        const uri = this.getEntryUri(key);
+        try {
+            const content = await vscode.workspace.fs.readFile(uri);
+            const entry = JSON.parse(new TextDecoder().decode(content)) as CacheEntry<T>;
+            // Rewriting the entry marks it as recently used for eviction
+            this.enqueue(() => vscode.workspace.fs.writeFile(uri, content)).catch(() => undefined);
+            return entry.data;
+        } catch {
+            return undefined;
+        }
+    }
+
+    public put<T>(key: string, data: T): Promise<void> {
+        const entry: CacheEntry<T> = { createdAt: Date.now(), data };
+        return this.enqueue(async () => {
+            await vscode.workspace.fs.createDirectory(this.directory);
+            await vscode.workspace.fs.writeFile(this.getEntryUri(key), new TextEncoder().encode(JSON.stringify(entry)));
+            await this.evict();
+        });
+    }
+
+    /**
+     * Deletes all entries
+     * @returns the number of deleted entries
+     */
+    public async clear(): Promise<number> {
+        const entries = await this.listEntries();
+        if (entries.length > 0) {
+            await this.enqueue(() => vscode.workspace.fs.delete(this.directory, { recursive: true, useTrash: false }));
+        }
+        return entries.length;
+    }
+
+    /**
+     * Removes the least recently used entries until the cache fits its size limit
+     */
+    private async evict(): Promise<void> {
+        const limit = this.settings.getResponseCacheSize() * 1024 * 1024;
+        const entries = await this.listEntries();
+        let total = entries.reduce((sum, e) => sum + e.size, 0);
+
+        for (const entry of entries.sort((a, b) => a.mtime - b.mtime)) {
+            if (total <= limit) {
+                break;
+            }
+            await vscode.workspace.fs.delete(entry.uri);
+            total -= entry.size;
+        }
+    }
+
+    private async listEntries(): Promise<Array<{ uri: vscode.Uri; size: number; mtime: number }>> {
+        let files: [string, vscode.FileType][];
+        try {
+            files = await vscode.workspace.fs.readDirectory(this.directory);
+        } catch {
+            return [];
+        }
+
+        const entries = [];
+        for (const [name, type] of files) {
+            if (type !== vscode.FileType.File || !name.endsWith('.json')) {
+                continue;
+            }
+            const uri = vscode.Uri.joinPath(this.directory, name);
+            try {
+                const stat = await vscode.workspace.fs.stat(uri);
+                entries.push({ uri, size: stat.size, mtime: stat.mtime });
+            } catch {
+                // Deleted by another window in the meantime
+            }
+        }
+        return entries;
+    }
+
+    private getEntryUri(key: string): vscode.Uri {
+        return vscode.Uri.joinPath(this.directory, `${key}.json`);
+    }
+
+    private enqueue(task: () => Thenable<void>): Promise<void> {
+        const run = this.pending.then(task);
+        this.pending = run.catch((error) => {
+            console.warn('[ResponseCache] Cache write failed:', error);
+        });
+        return run;
+    }
+}
+
+/**
+ * JSON with sorted object keys, so that equal requests hash equally
+ */
+function stableStringify(value: unknown): string {
+    return JSON.stringify(value, (_key, val) => {
+        if (val && typeof val === 'object' && !Array.isArray(val)) {
+            return Object.fromEntries(Object.keys(val).sort().map(k => [k, val[k]]));
+        }
+        return val;
+    });
+}
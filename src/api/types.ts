@@ -26,6 +26,8 @@ export interface GenerationOptions {
     coverageTarget: number;
     includeEdgeCases: boolean;
     springBootVersion?: string;
+    // Model ID from GET /models, the server picks one when omitted
+    model?: string;
 }
 
 /**
@@ -115,6 +117,71 @@ export interface HealthCheckResponse {
     features?: string[];
 }
 
+/**
+ * Optional features a server can advertise in HealthCheckResponse.features
+ */
+export enum ServerFeature {
+    SCENARIOS = 'scenarios',
+    AST_ANALYSIS = 'ast-analysis',
+    STREAMING = 'streaming',
+    JOBS = 'jobs',
+    SELF_HEALING = 'self-healing',
+    MODELS = 'models'
+}
+
+/**
+ * A model the server can generate with
+ */
+export interface ModelInfo {
+    id: string;
+    name?: string;
+    description?: string;
+    // The model the server uses when a request does not name one
+    default?: boolean;
+}
+
+/**
+ * Response from the model list API
+ */
+export interface ModelListResponse {
+    success: true;
+    models: ModelInfo[];
+}
+
+/**
+ * Lifecycle states of an asynchronous generation job
+ */
+export type JobState = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * Response from submitting an asynchronous generation job
+ */
+export interface SubmitJobResponse {
+    success: true;
+    jobId: string;
+}
+
+/**
+ * Status of an asynchronous generation job
+ */
+export interface JobStatusResponse {
+    success: true;
+    jobId: string;
+    status: JobState;
+    message?: string;
+    error?: ApiErrorInfo;
+}
+
+/**
+ * Server-sent event emitted by the streaming test generation API.
+ * "chunk" events carry partial test code, the final "done" event carries
+ * the complete response and "error" aborts the generation.
+ */
+export type GenerateTestStreamEvent =
+    | { event: 'chunk'; data: { content: string } }
+    | { event: 'done'; data: GenerateTestResponse }
+    | { event: 'error'; data: ApiErrorResponse };
+
 /**
  * Request body for code analysis API
  */
@@ -140,6 +207,19 @@ export interface GenerateScenariosResponse {
     scenarios: string;
 }
 
+/**
+ * Request body for the self-healing API, which corrects a failing test
+ * based on the build tool output
+ */
+export interface FixTestRequest {
+    sourceFile: SourceFile;
+    testFile: SourceFile;
+    failureOutput: string;
+    options: GenerationOptions;
+    iteration: number;
+    selfHealingGuide?: string;
+}
+
 /**
  * Complexity analysis result
  */
@@ -0,0 +1,250 @@
+import { ResponseValidationError } from './errors';
+
+/**
+ * Checks a value at the given field path and throws a FieldError on mismatch
+ */
+type Schema = (value: unknown, path: string) => void;
+
+/**
+ * Mismatch between a response and the API contract
+ */
+class FieldError extends Error {
+    constructor(public readonly path: string, message: string) {
+        super(message);
+    }
+}
+
+function describe(value: unknown): string {
+    if (value === null) {
+        return 'null';
+    }
+    return Array.isArray(value) ? 'array' : typeof value;
+}
+
+function fail(path: string, expected: string, value: unknown): never {
+    throw new FieldError(path || '(response)', `expected ${expected} but got ${describe(value)}`);
+}
+
+function join(path: string, key: string | number): string {
+    if (typeof key === 'number') {
+        return `${path}[${key}]`;
+    }
+    return path ? `${path}.${key}` : key;
+}
+
+const string = (options: { nonEmpty?: boolean } = {}): Schema => (value, path) => {
+    if (typeof value !== 'string') {
+        fail(path, 'string', value);
+    }
+    if (options.nonEmpty && value.trim() === '') {
+        throw new FieldError(path, 'must not be empty');
+    }
+};
+
+const number: Schema = (value, path) => {
+    if (typeof value !== 'number' || !isFinite(value)) {
+        fail(path, 'number', value);
+    }
+};
+
+const boolean: Schema = (value, path) => {
+    if (typeof value !== 'boolean') {
+        fail(path, 'boolean', value);
+    }
+};
+
+const unknownValue: Schema = () => undefined;
+
+const literal = (...allowed: Array<string | boolean>): Schema => (value, path) => {
+    if (!allowed.includes(value as string | boolean)) {
+        fail(path, allowed.map(a => JSON.stringify(a)).join(' | '), value);
+    }
+};
+
+const array = (item: Schema): Schema => (value, path) => {
+    if (!Array.isArray(value)) {
+        fail(path, 'array', value);
+    }
+    value.forEach((element, index) => item(element, join(path, index)));
+};
+
+// Servers commonly send null for absent optional fields
+const optional = (schema: Schema): Schema => (value, path) => {
+    if (value !== undefined && value !== null) {
+        schema(value, path);
+    }
+};
+
+function assertObject(value: unknown, path: string): asserts value is Record<string, unknown> {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        fail(path, 'object', value);
+    }
+}
+
+const object = (shape: Record<string, Schema>): Schema => (value, path) => {
+    assertObject(value, path);
+    for (const [key, schema] of Object.entries(shape)) {
+        schema(value[key], join(path, key));
+    }
+};
+
+const record = (item: Schema): Schema => (value, path) => {
+    assertObject(value, path);
+    for (const [key, element] of Object.entries(value)) {
+        item(element, join(path, key));
+    }
+};
+
+// Relative path of a Java file inside the workspace
+const relativeJavaPath: Schema = (value, path) => {
+    string({ nonEmpty: true })(value, path);
+    const normalized = (value as string).replace(/\\/g, '/');
+    if (normalized.startsWith('/') || /^[a-zA-Z]:/.test(normalized)) {
+        throw new FieldError(path, 'must be a path relative to the workspace');
+    }
+    if (normalized.split('/').includes('..')) {
+        throw new FieldError(path, 'must not leave the workspace');
+    }
+    if (!normalized.endsWith('.java')) {
+        throw new FieldError(path, 'must point to a .java file');
+    }
+};
+
+const javaFileName: Schema = (value, path) => {
+    string({ nonEmpty: true })(value, path);
+    if (!/^[\w$]+\.java$/.test(value as string)) {
+        throw new FieldError(path, 'must be a Java file name');
+    }
+};
+
+const apiErrorInfo = object({
+    code: string({ nonEmpty: true }),
+    message: string(),
+    details: optional(record(unknownValue)),
+    requestId: optional(string())
+});
+
+const astSummary = object({
+    methodCount: number,
+    publicMethods: array(string()),
+    dependencies: array(string()),
+    annotations: optional(array(string()))
+});
+
+const analysisResult = object({
+    astSummary: optional(astSummary),
+    mockingSuggestions: optional(array(object({
+        interface: string(),
+        suggestedMocks: array(string()),
+        strategy: optional(string())
+    }))),
+    argumentCaptorAdvice: optional(array(string())),
+    selfHealingGuide: optional(string())
+});
+
+export const apiErrorResponseSchema = object({
+    success: literal(false),
+    error: apiErrorInfo
+});
+
+export const generateTestResponseSchema = object({
+    success: literal(true),
+    testFile: object({
+        fileName: javaFileName,
+        packageName: string(),
+        content: string({ nonEmpty: true }),
+        suggestedPath: relativeJavaPath
+    }),
+    analysis: optional(analysisResult),
+    metadata: optional(object({
+        generationTime: number,
+        tokensUsed: optional(number),
+        modelUsed: optional(string()),
+        retryCount: optional(number)
+    }))
+});
+
+export const healthCheckResponseSchema = object({
+    status: literal('healthy', 'unhealthy'),
+    version: string({ nonEmpty: true }),
+    features: optional(array(string()))
+});
+
+export const submitJobResponseSchema = object({
+    success: literal(true),
+    jobId: string({ nonEmpty: true })
+});
+
+export const jobStatusResponseSchema = object({
+    success: literal(true),
+    jobId: string({ nonEmpty: true }),
+    status: literal('queued', 'running', 'completed', 'failed', 'cancelled'),
+    message: optional(string()),
+    error: optional(apiErrorInfo)
+});
+
+export const generateScenariosResponseSchema = object({
+    success: literal(true),
+    scenarios: string({ nonEmpty: true })
+});
+
+export const analyzeResponseSchema = object({
+    success: boolean,
+    analysis: object({
+        ast: optional(astSummary),
+        dependencies: optional(object({
+            imports: array(string()),
+            injectedBeans: array(string())
+        })),
+        complexity: optional(object({
+            cyclomaticComplexity: number,
+            linesOfCode: number,
+            methodComplexities: optional(record(number))
+        }))
+    }),
+    error: optional(apiErrorInfo)
+});
+
+export const modelListResponseSchema = object({
+    success: literal(true),
+    models: array(object({
+        id: string({ nonEmpty: true }),
+        name: optional(string()),
+        description: optional(string()),
+        default: optional(boolean)
+    }))
+});
+
+export const streamChunkSchema = object({
+    content: string()
+});
+
+/**
+ * Accepts either the given success response or an ApiErrorResponse
+ * (`success: false`)
+ */
+export function orErrorResponse(schema: Schema): Schema {
+    return (value, path) => {
+        if (typeof value === 'object' && value !== null && (value as { success?: unknown }).success === false) {
+            apiErrorResponseSchema(value, path);
+        } else {
+            schema(value, path);
+        }
+    };
+}
+
+/**
+ * Validates a response body against a schema
+ * @throws ResponseValidationError naming the offending field
+ */
+export function validateResponse<T>(schema: Schema, data: unknown, requestId?: string): T {
+    try {
+        schema(data, '');
+    } catch (error) {
+        if (error instanceof FieldError) {
+            throw new ResponseValidationError(error.path, error.message, requestId);
+        }
+        throw error;
+    }
+    return data as T;
+}
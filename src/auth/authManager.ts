@@ -0,0 +1,45 @@
+import * as vscode from 'vscode';
+import { SettingsManager } from '../config/settings';
+import { ApiKeyError } from '../api/errors';
+import { ApiKeyAuthProvider, AuthProvider } from './authProvider';
+import { DeviceFlowAuthProvider } from './deviceFlowAuthProvider';
+
+/**
+ * Delegates to the auth provider selected by javaTestGenerator.authMode
+ */
+export class AuthManager implements AuthProvider {
+    private settings: SettingsManager;
+    private apiKeyProvider: ApiKeyAuthProvider;
+
+    public readonly deviceFlow: DeviceFlowAuthProvider;
+
+    constructor(settings: SettingsManager, secrets: vscode.SecretStorage) {
+        this.settings = settings;
+        this.apiKeyProvider = new ApiKeyAuthProvider(settings);
+        this.deviceFlow = new DeviceFlowAuthProvider(settings, secrets);
+    }
+
+    private get current(): AuthProvider {
+        return this.settings.getAuthMode() === 'oauthDeviceFlow' ? this.deviceFlow : this.apiKeyProvider;
+    }
+
+    public isOAuth(): boolean {
+        return this.current === this.deviceFlow;
+    }
+
+    public getHeaders(): Promise<Record<string, string>> {
+        return this.current.getHeaders();
+    }
+
+    public refresh(): Promise<boolean> {
+        return this.current.refresh();
+    }
+
+    public createUnauthorizedError(message?: string): ApiKeyError {
+        return this.current.createUnauthorizedError(message);
+    }
+
+    public dispose(): void {
+        this.deviceFlow.dispose();
+    }
+}
@@ -0,0 +1,53 @@
+import { SettingsManager } from '../config/settings';
+import { ApiKeyError } from '../api/errors';
+
+/**
+ * Supplies credentials for API requests
+ */
+export interface AuthProvider {
+    /**
+     * Headers that authenticate a request
+     */
+    getHeaders(): Promise<Record<string, string>>;
+
+    /**
+     * Renews the credentials after the server answered 401.
+     * Resolves true when the request should be retried.
+     */
+    refresh(): Promise<boolean>;
+
+    /**
+     * Error surfaced when the server still rejects the credentials
+     */
+    createUnauthorizedError(message?: string): ApiKeyError;
+}
+
+/**
+ * Sends the static API key from SecretStorage as X-API-Key
+ */
+export class ApiKeyAuthProvider implements AuthProvider {
+    private settings: SettingsManager;
+    private lastSentKey = '';
+
+    constructor(settings: SettingsManager) {
+        this.settings = settings;
+    }
+
+    public async getHeaders(): Promise<Record<string, string>> {
+        const apiKey = this.settings.getApiKey();
+        this.lastSentKey = apiKey;
+        return apiKey ? { 'X-API-Key': apiKey } : {};
+    }
+
+    /**
+     * Reloads the key from SecretStorage, it may have been changed in another window
+     */
+    public async refresh(): Promise<boolean> {
+        const apiKey = await this.settings.getApiKeyAsync();
+        return Boolean(apiKey) && apiKey !== this.lastSentKey;
+    }
+
+    public createUnauthorizedError(message?: string): ApiKeyError {
+        return new ApiKeyError(message || 'Invalid or expired API key');
+    }
+}
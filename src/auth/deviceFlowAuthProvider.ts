@@ -0,0 +1,328 @@
+import * as vscode from 'vscode';
+import axios from 'axios';
+import { SettingsManager } from '../config/settings';
+import { ApiKeyError, SessionExpiredError } from '../api/errors';
+import { createConnectionConfig } from '../api/network';
+import { AuthProvider } from './authProvider';
+
+/**
+ * Tokens persisted in SecretStorage, bound to the token endpoint and
+ * client they were issued for
+ */
+interface StoredTokens {
+    accessToken: string;
+    refreshToken?: string;
+    expiresAt?: number;
+    tokenUrl: string;
+    clientId: string;
+}
+
+/**
+ * Device authorization response (RFC 8628, section 3.2)
+ */
+interface DeviceAuthorizationResponse {
+    device_code: string;
+    user_code: string;
+    verification_uri: string;
+    verification_uri_complete?: string;
+    expires_in: number;
+    interval?: number;
+}
+
+/**
+ * Successful token response (RFC 6749, section 5.1)
+ */
+interface TokenResponse {
+    access_token: string;
+    token_type?: string;
+    expires_in?: number;
+    refresh_token?: string;
+}
+
+/**
+ * Error returned by the token endpoint (RFC 6749, section 5.2)
+ */
+class OAuthError extends Error {
+    constructor(public readonly code: string, description?: string) {
+        super(description || code);
+        this.name = 'OAuthError';
+    }
+}
+
+/**
+ * Authenticates with bearer tokens obtained through the OAuth2 device
+ * authorization grant. Tokens are refreshed before they expire and after
+ * the server rejects them.
+ */
+export class DeviceFlowAuthProvider implements AuthProvider {
+    private static readonly TOKEN_SECRET = 'javaTestGenerator.oauthTokens';
+    // Access tokens are refreshed this long before they expire
+    private static readonly EXPIRY_MARGIN = 60000;
+    private static readonly REQUEST_TIMEOUT = 30000;
+
+    private settings: SettingsManager;
+    private secrets: vscode.SecretStorage;
+    private tokens: StoredTokens | undefined;
+    private tokensLoaded = false;
+    private refreshing: Promise<boolean> | undefined;
+    private onSessionChangeEmitter = new vscode.EventEmitter<boolean>();
+
+    // Fires with the new signed-in state
+    public readonly onDidChangeSession = this.onSessionChangeEmitter.event;
+
+    constructor(settings: SettingsManager, secrets: vscode.SecretStorage) {
+        this.settings = settings;
+        this.secrets = secrets;
+    }
+
+    public async getHeaders(): Promise<Record<string, string>> {
+        const tokens = await this.getTokens();
+        if (!tokens) {
+            return {};
+        }
+
+        if (tokens.refreshToken && tokens.expiresAt &&
+            Date.now() > tokens.expiresAt - DeviceFlowAuthProvider.EXPIRY_MARGIN) {
+            await this.refresh();
+        }
+
+        return this.tokens ? { Authorization: `Bearer ${this.tokens.accessToken}` } : {};
+    }
+
+    /**
+     * Exchanges the refresh token for a new access token.
+     * Concurrent callers share a single token request.
+     */
+    public refresh(): Promise<boolean> {
+        if (!this.refreshing) {
+            this.refreshing = this.refreshTokens().finally(() => {
+                this.refreshing = undefined;
+            });
+        }
+        return this.refreshing;
+    }
+
+    public createUnauthorizedError(message?: string): ApiKeyError {
+        return new SessionExpiredError(message);
+    }
+
+    public async isSignedIn(): Promise<boolean> {
+        return Boolean(await this.getTokens());
+    }
+
+    /**
+     * Runs the device authorization flow: shows the user code, opens the
+     * verification page and polls the token endpoint until the user approves
+     * @returns false if the user cancelled
+     * @throws Error if the flow is not configured or the server denies access
+     */
+    public async signIn(): Promise<boolean> {
+        const oauth = this.settings.getOAuthSettings();
+        if (!oauth.deviceAuthorizationUrl || !oauth.tokenUrl || !oauth.clientId) {
+            throw new Error(
+                'OAuth sign-in is not configured. Set javaTestGenerator.oauthDeviceAuthorizationUrl, ' +
+                'javaTestGenerator.oauthTokenUrl and javaTestGenerator.oauthClientId.'
+            );
+        }
+
+        const device = await this.post<DeviceAuthorizationResponse>(oauth.deviceAuthorizationUrl, {
+            client_id: oauth.clientId,
+            ...(oauth.scope && { scope: oauth.scope })
+        });
+        if (!device.device_code || !device.user_code || !device.verification_uri) {
+            throw new Error('Invalid response from the device authorization endpoint');
+        }
+
+        const action = await vscode.window.showInformationMessage(
+            `Sign in to the test generation server with code ${device.user_code}`,
+            {
+                modal: true,
+                detail: `Open ${device.verification_uri} and enter the code. The code is copied to the clipboard.`
+            },
+            'Copy Code and Open Browser'
+        );
+        if (!action) {
+            return false;
+        }
+
+        await vscode.env.clipboard.writeText(device.user_code);
+        await vscode.env.openExternal(vscode.Uri.parse(device.verification_uri_complete || device.verification_uri));
+
+        const response = await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: `Waiting for sign-in (code ${device.user_code})...`,
+                cancellable: true
+            },
+            (_progress, token) => this.pollForToken(device, token)
+        );
+        if (!response) {
+            return false;
+        }
+
+        await this.storeTokens(response);
+        return true;
+    }
+
+    /**
+     * Forgets the stored tokens
+     */
+    public async signOut(): Promise<void> {
+        this.tokens = undefined;
+        this.tokensLoaded = true;
+        await this.secrets.delete(DeviceFlowAuthProvider.TOKEN_SECRET);
+        this.onSessionChangeEmitter.fire(false);
+    }
+
+    private async pollForToken(
+        device: DeviceAuthorizationResponse,
+        token: vscode.CancellationToken
+    ): Promise<TokenResponse | undefined> {
+        let interval = (device.interval || 5) * 1000;
+        const deadline = Date.now() + device.expires_in * 1000;
+
+        while (Date.now() < deadline) {
+            if (!(await waitFor(interval, token))) {
+                return undefined;
+            }
+
+            try {
+                return await this.requestToken({
+                    grant_type: 'urn:ietf:params:oauth:grant-type:device_code',
+                    device_code: device.device_code
+                });
+            } catch (error) {
+                if (!(error instanceof OAuthError)) {
+                    throw error;
+                }
+                if (error.code === 'slow_down') {
+                    interval += 5000;
+                } else if (error.code === 'access_denied') {
+                    throw new Error('Sign-in was denied');
+                } else if (error.code !== 'authorization_pending') {
+                    throw new Error(`Sign-in failed: ${error.message}`);
+                }
+            }
+        }
+
+        throw new Error('The sign-in code expired. Please sign in again.');
+    }
+
+    private async refreshTokens(): Promise<boolean> {
+        const tokens = await this.getTokens();
+        if (!tokens?.refreshToken) {
+            return false;
+        }
+
+        try {
+            const response = await this.requestToken({
+                grant_type: 'refresh_token',
+                refresh_token: tokens.refreshToken
+            });
+            await this.storeTokens(response, tokens.refreshToken);
+            return true;
+        } catch (error) {
+            console.error('[DeviceFlowAuthProvider] Token refresh failed:', error);
+            // The refresh token was revoked or has expired
+            if (error instanceof OAuthError && error.code === 'invalid_grant') {
+                await this.signOut();
+            }
+            return false;
+        }
+    }
+
+    private async requestToken(params: Record<string, string>): Promise<TokenResponse> {
+        const oauth = this.settings.getOAuthSettings();
+        const response = await this.post<TokenResponse>(oauth.tokenUrl, { ...params, client_id: oauth.clientId });
+        if (typeof response.access_token !== 'string' || !response.access_token) {
+            throw new Error('Invalid response from the token endpoint');
+        }
+        return response;
+    }
+
+    /**
+     * Posts a form to an OAuth endpoint through the configured proxy and TLS settings
+     */
+    private async post<T>(url: string, form: Record<string, string>): Promise<T> {
+        const client = axios.create({
+            timeout: DeviceFlowAuthProvider.REQUEST_TIMEOUT,
+            ...createConnectionConfig(url, this.settings.getNetworkOptions())
+        });
+
+        try {
+            const response = await client.post<T>(url, new URLSearchParams(form).toString(), {
+                headers: {
+                    'Content-Type': 'application/x-www-form-urlencoded',
+                    'Accept': 'application/json'
+                }
+            });
+            return response.data;
+        } catch (error) {
+            const data = axios.isAxiosError(error) ? error.response?.data as { error?: unknown; error_description?: string } : undefined;
+            if (typeof data?.error === 'string') {
+                throw new OAuthError(data.error, data.error_description);
+            }
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            throw new Error(`Request to ${new URL(url).host} failed: ${message}`);
+        }
+    }
+
+    private async getTokens(): Promise<StoredTokens | undefined> {
+        if (!this.tokensLoaded) {
+            this.tokensLoaded = true;
+            try {
+                const stored = await this.secrets.get(DeviceFlowAuthProvider.TOKEN_SECRET);
+                this.tokens = stored ? JSON.parse(stored) as StoredTokens : undefined;
+            } catch (error) {
+                console.error('[DeviceFlowAuthProvider] Failed to load tokens:', error);
+            }
+        }
+
+        // Tokens from a different identity provider or client are not used
+        const oauth = this.settings.getOAuthSettings();
+        if (this.tokens && (this.tokens.tokenUrl !== oauth.tokenUrl || this.tokens.clientId !== oauth.clientId)) {
+            return undefined;
+        }
+        return this.tokens;
+    }
+
+    private async storeTokens(response: TokenResponse, previousRefreshToken?: string): Promise<void> {
+        const oauth = this.settings.getOAuthSettings();
+        this.tokens = {
+            accessToken: response.access_token,
+            // Servers without refresh token rotation omit it on refresh
+            refreshToken: response.refresh_token || previousRefreshToken,
+            expiresAt: response.expires_in ? Date.now() + response.expires_in * 1000 : undefined,
+            tokenUrl: oauth.tokenUrl,
+            clientId: oauth.clientId
+        };
+        this.tokensLoaded = true;
+        await this.secrets.store(DeviceFlowAuthProvider.TOKEN_SECRET, JSON.stringify(this.tokens));
+        this.onSessionChangeEmitter.fire(true);
+    }
+
+    public dispose(): void {
+        this.onSessionChangeEmitter.dispose();
+    }
+}
+
+/**
+ * Waits for the given delay, resolving false if cancelled first
+ */
+function waitFor(delay: number, token: vscode.CancellationToken): Promise<boolean> {
+    return new Promise((resolve) => {
+        if (token.isCancellationRequested) {
+            resolve(false);
+            return;
+        }
+        const listener = token.onCancellationRequested(() => {
+            clearTimeout(timer);
+            listener.dispose();
+            resolve(false);
+        });
+        const timer = setTimeout(() => {
+            listener.dispose();
+            resolve(true);
+        }, delay);
+    });
+}
@@ -0,0 +1,51 @@
+import * as vscode from 'vscode';
+import { AuthManager } from '../auth/authManager';
+import { getUserFriendlyErrorMessage } from '../api/errors';
+import { DiagnosticReporter } from '../services/diagnosticReport';
+
+/**
+ * Creates the sign in command (OAuth device flow)
+ */
+export function createSignInCommand(auth: AuthManager, reporter: DiagnosticReporter): vscode.Disposable {
+    return vscode.commands.registerCommand(
+        'javaTestGenerator.signIn',
+        async () => {
+            if (!auth.isOAuth()) {
+                const action = await vscode.window.showInformationMessage(
+                    'Sign-in is only used with OAuth authentication. The extension is configured to use an API key.',
+                    'Open Settings'
+                );
+                if (action === 'Open Settings') {
+                    vscode.commands.executeCommand('workbench.action.openSettings', 'javaTestGenerator.authMode');
+                }
+                return;
+            }
+
+            try {
+                if (await auth.deviceFlow.signIn()) {
+                    vscode.window.showInformationMessage('Signed in to the test generation server');
+                }
+            } catch (error) {
+                reporter.showError(`Sign-in failed: ${getUserFriendlyErrorMessage(error)}`, error);
+            }
+        }
+    );
+}
+
+/**
+ * Creates the sign out command
+ */
+export function createSignOutCommand(auth: AuthManager): vscode.Disposable {
+    return vscode.commands.registerCommand(
+        'javaTestGenerator.signOut',
+        async () => {
+            if (!(await auth.deviceFlow.isSignedIn())) {
+                vscode.window.showInformationMessage('You are not signed in');
+                return;
+            }
+
+            await auth.deviceFlow.signOut();
+            vscode.window.showInformationMessage('Signed out of the test generation server');
+        }
+    );
+}
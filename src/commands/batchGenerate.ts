@@ -0,0 +1,440 @@
+import * as vscode from 'vscode';
+import { ApiClient } from '../api/client';
+import { FileManager } from '../services/fileManager';
+import { PathResolver } from '../services/pathResolver';
+import { sendWithinBudget } from '../services/payloadBudget';
+import { UsageTracker } from '../services/usageTracker';
+import { DiagnosticReporter } from '../services/diagnosticReport';
+import { ModelManager } from '../services/modelManager';
+import { GenerationJournal, GenerationTransaction } from '../services/generationJournal';
+import { GenerationHistory } from '../services/generationHistory';
+import { CompileChecker, GeneratedTest } from '../services/compileChecker';
+import { StatusBarManager } from '../ui/statusBar';
+import { SettingsManager } from '../config/settings';
+import { GenerateTestRequest, SourceFile } from '../api/types';
+import { getUserFriendlyErrorMessage, RequestCancelledError } from '../api/errors';
+import {
+    extractTestMethods,
+    getTypeKind,
+    isDataOnlyRecord,
+    mergeImports,
+    mergeTestMethods
+} from '../services/javaParser';
+import { collectDependencies, toAbortSignal } from './generateTest';
+
+/**
+ * Outcome of one source file in a batch run
+ */
+export type BatchStatus = 'created' | 'merged' | 'skipped' | 'failed';
+
+export interface BatchResult {
+    status: BatchStatus;
+    // Test file for created and merged results, source file otherwise
+    uri: vscode.Uri;
+    detail: string;
+    // Written test for created and merged results, for the compile check
+    test?: GeneratedTest;
+}
+
+/**
+ * A source file selected for generation
+ */
+interface BatchCandidate {
+    uri: vscode.Uri;
+    content: string;
+}
+
+// Build output and tooling folders that never hold sources to test
+const EXCLUDED_FOLDERS = '**/{node_modules,target,build,out,.git,.gradle}/**';
+
+/**
+ * Creates the command that generates tests for every eligible class below a folder
+ */
+export function createGenerateTestsForFolderCommand(
+    apiClient: ApiClient,
+    statusBar: StatusBarManager,
+    settings: SettingsManager,
+    usageTracker: UsageTracker,
+    reporter: DiagnosticReporter,
+    modelManager: ModelManager,
+    journal: GenerationJournal,
+    history: GenerationHistory,
+    compileChecker: CompileChecker
+): vscode.Disposable {
+    const outputChannel = vscode.window.createOutputChannel('Test-AutoEvermation: Batch Generation');
+
+    const command = vscode.commands.registerCommand(
+        'javaTestGenerator.generateTestsForFolder',
+        async (uri?: vscode.Uri) => {
+            const folderUri = uri || await pickFolder();
+            if (!folderUri) {
+                return;
+            }
+
+            if (!settings.isConfigured()) {
+                const configure = await vscode.window.showWarningMessage(
+                    'API URL and API Key are not configured.',
+                    'Open Settings'
+                );
+                if (configure === 'Open Settings') {
+                    vscode.commands.executeCommand('workbench.action.openSettings', 'javaTestGenerator');
+                }
+                return;
+            }
+
+            const folderName = vscode.workspace.asRelativePath(folderUri);
+
+            try {
+                const { candidates, skipped } = await vscode.window.withProgress(
+                    {
+                        location: vscode.ProgressLocation.Notification,
+                        title: `Scanning ${folderName}`,
+                        cancellable: false
+                    },
+                    () => findCandidates(folderUri)
+                );
+
+                if (candidates.length === 0) {
+                    vscode.window.showInformationMessage(
+                        skipped.length > 0
+                            ? `No classes without tests found in ${folderName} (${skipped.length} file(s) skipped)`
+                            : `No Java sources under src/main/java found in ${folderName}`
+                    );
+                    return;
+                }
+
+                // Every class costs a request, so confirm before spending tokens
+                const confirm = await vscode.window.showInformationMessage(
+                    `Generate tests for ${candidates.length} class(es) in ${folderName}?`,
+                    {
+                        modal: true,
+                        detail: skipped.length > 0
+                            ? `${skipped.length} file(s) will be skipped: interfaces, data-only records and classes that already have tests.`
+                            : undefined
+                    },
+                    'Generate'
+                );
+                if (confirm !== 'Generate') {
+                    return;
+                }
+
+                // One model for the whole batch
+                let model: string | undefined;
+                if (modelManager.isSupported() && settings.shouldPickModelBeforeGeneration()) {
+                    const pick = await modelManager.pickModelForGeneration('Select Model for Batch Test Generation');
+                    if (!pick) {
+                        return;
+                    }
+                    model = pick.model;
+                } else {
+                    model = await modelManager.getModelForRequest();
+                }
+
+                statusBar.setGenerating();
+
+                // The whole batch is undone as one generation
+                const transaction = journal.begin(`Batch: ${folderName}`);
+                let results: BatchResult[];
+                try {
+                    results = await vscode.window.withProgress(
+                        {
+                            location: vscode.ProgressLocation.Notification,
+                            title: `Generating tests for ${folderName}`,
+                            cancellable: true
+                        },
+                        (progress, token) => runBatch(
+                            candidates,
+                            settings.getBatchConcurrency(),
+                            (candidate, signal) => generateForCandidate(
+                                candidate,
+                                model,
+                                apiClient,
+                                settings,
+                                usageTracker,
+                                transaction,
+                                history,
+                                signal
+                            ),
+                            (done, current) => progress.report({
+                                increment: 100 / candidates.length,
+                                message: `${done}/${candidates.length} ${current}`
+                            }),
+                            token
+                        )
+                    );
+                } finally {
+                    await transaction.commit();
+                }
+
+                const allResults = [...results, ...skipped];
+                showSummary(outputChannel, folderName, allResults);
+                compileChecker.checkAfterSave(results.flatMap(r => r.test ? [r.test] : []));
+
+                const failed = allResults.filter(r => r.status === 'failed').length;
+                const message = `Batch generation finished: ${formatCounts(allResults)}`;
+                if (failed > 0) {
+                    statusBar.setError(`${failed} test generation(s) failed`);
+                    vscode.window.showWarningMessage(message);
+                } else {
+                    statusBar.setSuccess(`Generated tests for ${folderName}`);
+                    vscode.window.showInformationMessage(message);
+                }
+            } catch (error) {
+                statusBar.setError(getUserFriendlyErrorMessage(error));
+                reporter.showError(`Batch test generation failed: ${getUserFriendlyErrorMessage(error)}`, error);
+            }
+        }
+    );
+
+    return vscode.Disposable.from(command, outputChannel);
+}
+
+/**
+ * Asks for a folder when the command is run from the command palette
+ */
+async function pickFolder(): Promise<vscode.Uri | undefined> {
+    const picked = await vscode.window.showOpenDialog({
+        canSelectFiles: false,
+        canSelectFolders: true,
+        canSelectMany: false,
+        defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+        openLabel: 'Generate Tests'
+    });
+    return picked?.[0];
+}
+
+/**
+ * Finds the main sources below a folder and sorts out the ones that
+ * should not get a generated test
+ */
+async function findCandidates(folderUri: vscode.Uri): Promise<{ candidates: BatchCandidate[]; skipped: BatchResult[] }> {
+    const fileManager = new FileManager();
+    const pathResolver = new PathResolver();
+
+    const files = await vscode.workspace.findFiles(
+        new vscode.RelativePattern(folderUri, '**/*.java'),
+        EXCLUDED_FOLDERS
+    );
+
+    const candidates: BatchCandidate[] = [];
+    const skipped: BatchResult[] = [];
+
+    for (const uri of files.sort((a, b) => a.path.localeCompare(b.path))) {
+        if (!uri.path.includes('/src/main/java/')) {
+            continue;
+        }
+
+        const skip = (detail: string) => skipped.push({ status: 'skipped', uri, detail });
+
+        let content: string;
+        try {
+            content = await fileManager.readFile(uri);
+        } catch (error) {
+            skip(`Could not be read: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            continue;
+        }
+
+        const kind = getTypeKind(content);
+        if (!kind) {
+            skip('No type declaration');
+            continue;
+        }
+        if (kind === 'interface' || kind === 'annotation') {
+            skip(kind === 'interface' ? 'Interface' : 'Annotation type');
+            continue;
+        }
+        if (isDataOnlyRecord(content)) {
+            skip('Data-only record');
+            continue;
+        }
+
+        const testPath = pathResolver.resolveTestPath(uri);
+        if (await fileManager.fileExists(testPath)) {
+            skip(`Test exists: ${vscode.workspace.asRelativePath(testPath)}`);
+            continue;
+        }
+
+        candidates.push({ uri, content });
+    }
+
+    return { candidates, skipped };
+}
+
+/**
+ * Processes the candidates with at most `concurrency` requests in flight.
+ * Candidates not started before cancellation are reported as skipped.
+ */
+async function runBatch(
+    candidates: BatchCandidate[],
+    concurrency: number,
+    generate: (candidate: BatchCandidate, signal: AbortSignal) => Promise<BatchResult>,
+    onDone: (done: number, current: string) => void,
+    token: vscode.CancellationToken
+): Promise<BatchResult[]> {
+    const signal = toAbortSignal(token);
+    const results: BatchResult[] = new Array(candidates.length);
+    let next = 0;
+    let done = 0;
+
+    const worker = async () => {
+        while (next < candidates.length) {
+            const index = next++;
+            const candidate = candidates[index];
+
+            if (token.isCancellationRequested) {
+                results[index] = { status: 'skipped', uri: candidate.uri, detail: 'Cancelled' };
+                continue;
+            }
+
+            try {
+                results[index] = await generate(candidate, signal);
+            } catch (error) {
+                results[index] = error instanceof RequestCancelledError
+                    ? { status: 'skipped', uri: candidate.uri, detail: 'Cancelled' }
+                    : { status: 'failed', uri: candidate.uri, detail: getUserFriendlyErrorMessage(error) };
+            }
+            onDone(++done, vscode.workspace.asRelativePath(candidate.uri));
+        }
+    };
+
+    const workerCount = Math.max(1, Math.min(concurrency, candidates.length));
+    await Promise.all(Array.from({ length: workerCount }, worker));
+    return results;
+}
+
+/**
+ * Generates and writes the test for one class without asking anything.
+ * A test file that appeared since the scan (e.g. at the server's
+ * suggested path) gets the new test methods merged in.
+ */
+async function generateForCandidate(
+    candidate: BatchCandidate,
+    model: string | undefined,
+    apiClient: ApiClient,
+    settings: SettingsManager,
+    usageTracker: UsageTracker,
+    transaction: GenerationTransaction,
+    history: GenerationHistory,
+    signal: AbortSignal
+): Promise<BatchResult> {
+    const fileManager = new FileManager();
+    const pathResolver = new PathResolver();
+
+    const pathInfo = pathResolver.parseJavaPath(candidate.uri);
+    const packageName = pathResolver.extractPackageFromContent(candidate.content) || pathInfo.packageName;
+    const className = pathResolver.extractClassNameFromContent(candidate.content) || pathInfo.className;
+
+    const sourceFile: SourceFile = {
+        fileName: `${className}.java`,
+        packageName,
+        content: candidate.content
+    };
+
+    const dependencies = settings.shouldIncludeDependencies()
+        ? await collectDependencies(candidate.content, candidate.uri, fileManager, pathResolver)
+        : [];
+
+    const request: GenerateTestRequest = {
+        sourceFile,
+        dependencies,
+        options: {
+            testFramework: settings.getTestFramework(),
+            mockingFramework: settings.getMockingFramework(),
+            coverageTarget: settings.getCoverageTarget(),
+            includeEdgeCases: settings.includeEdgeCases(),
+            ...(model && { model })
+        }
+    };
+
+    let cached = false;
+    const response = await sendWithinBudget(
+        request,
+        settings.getPayloadBudget(),
+        (payload) => apiClient.generateTest(payload, signal, {
+            onHit: () => {
+                cached = true;
+            }
+        })
+    );
+
+    if (!cached) {
+        await usageTracker.record(response.metadata, candidate.uri);
+    }
+
+    if (!response.success) {
+        throw new Error('Test generation failed');
+    }
+
+    const testPath = pathResolver.resolveTestPath(candidate.uri, response.testFile.suggestedPath);
+    const testCount = extractTestMethods(response.testFile.content).length;
+
+    let content = response.testFile.content;
+    let status: BatchStatus = 'created';
+    let detail = `${testCount} test method(s)`;
+
+    if (await fileManager.fileExists(testPath)) {
+        const existingContent = await fileManager.readFile(testPath);
+        const existingTests = extractTestMethods(existingContent);
+        const newTests = extractTestMethods(response.testFile.content).filter(m => !existingTests.includes(m));
+
+        content = mergeTestMethods(mergeImports(existingContent, content), content);
+        status = 'merged';
+        detail = `${newTests.length} new test method(s)`;
+    }
+
+    await transaction.snapshot(testPath);
+    const saveResult = await fileManager.saveTestFile(testPath, content);
+    if (!saveResult.success) {
+        throw new Error(`Failed to save test file: ${saveResult.error}`);
+    }
+
+    await history.add({
+        sourceUri: candidate.uri.toString(),
+        testUri: testPath.toString(),
+        options: request.options,
+        modelUsed: response.metadata?.modelUsed,
+        analysis: response.analysis,
+        journalEntryId: transaction.id
+    });
+
+    return {
+        status,
+        uri: testPath,
+        detail: cached ? `${detail}, cached` : detail,
+        test: { sourceUri: candidate.uri, testUri: testPath, options: request.options }
+    };
+}
+
+function formatCounts(results: BatchResult[]): string {
+    const count = (status: BatchStatus) => results.filter(r => r.status === status).length;
+    return `${count('created')} created, ${count('merged')} merged, ${count('skipped')} skipped, ${count('failed')} failed`;
+}
+
+/**
+ * Writes the summary table of a batch run to the output channel
+ */
+function showSummary(outputChannel: vscode.OutputChannel, folderName: string, results: BatchResult[]): void {
+    const order: BatchStatus[] = ['created', 'merged', 'failed', 'skipped'];
+    const rows = [...results]
+        .sort((a, b) => order.indexOf(a.status) - order.indexOf(b.status))
+        .map(r => [
+            r.status.charAt(0).toUpperCase() + r.status.slice(1),
+            vscode.workspace.asRelativePath(r.uri),
+            r.detail
+        ]);
+
+    const header = ['Status', 'File', 'Details'];
+    const widths = header.map((title, column) =>
+        Math.max(title.length, ...rows.map(row => row[column].length))
+    );
+    const formatRow = (row: string[]) => row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd();
+
+    outputChannel.clear();
+    outputChannel.appendLine(`=== Batch Test Generation: ${folderName} ===\n`);
+    outputChannel.appendLine(formatRow(header));
+    outputChannel.appendLine(formatRow(widths.map(width => '-'.repeat(width))));
+    rows.forEach(row => outputChannel.appendLine(formatRow(row)));
+    outputChannel.appendLine('');
+    outputChannel.appendLine(formatCounts(results));
+    outputChannel.show(true);
+}
@@ -0,0 +1,22 @@
+import * as vscode from 'vscode';
+import { ResponseCache } from '../api/responseCache';
+
+/**
+ * Creates the clear response cache command
+ */
+export function createClearCacheCommand(cache: ResponseCache): vscode.Disposable {
+    return vscode.commands.registerCommand(
+        'javaTestGenerator.clearCache',
+        async () => {
+            try {
+                const count = await cache.clear();
+                vscode.window.showInformationMessage(
+                    count > 0 ? `Cleared ${count} cached response(s)` : 'The response cache is empty'
+                );
+            } catch (error) {
+                const message = error instanceof Error ? error.message : 'Unknown error';
+                vscode.window.showErrorMessage(`Failed to clear the response cache: ${message}`);
+            }
+        }
+    );
+}
@@ -0,0 +1,184 @@
+import * as vscode from 'vscode';
+import { FileManager } from '../services/fileManager';
+import { PathResolver } from '../services/pathResolver';
+import { ModelManager } from '../services/modelManager';
+import { DiagnosticReporter } from '../services/diagnosticReport';
+import { findChangedJavaFiles, findChangedMethods } from '../services/gitChanges';
+import { extractMethods, getTypeKind, isDataOnlyRecord, JavaMethod } from '../services/javaParser';
+import { SettingsManager } from '../config/settings';
+import { getUserFriendlyErrorMessage } from '../api/errors';
+import { GenerateTestCommandOptions } from './generateTest';
+
+/**
+ * A changed source file with its methods
+ */
+interface ChangedClass {
+    uri: vscode.Uri;
+    testPath: vscode.Uri;
+    testExists: boolean;
+    methods: JavaMethod[];
+    changedMethods: JavaMethod[];
+}
+
+type MethodItem = vscode.QuickPickItem & { changedClass?: ChangedClass; method?: JavaMethod };
+
+/**
+ * Creates the command that generates or refreshes tests for the classes
+ * changed since the merge-base with the base branch
+ */
+export function createGenerateTestsForChangesCommand(
+    settings: SettingsManager,
+    modelManager: ModelManager,
+    reporter: DiagnosticReporter
+): vscode.Disposable {
+    return vscode.commands.registerCommand(
+        'javaTestGenerator.generateTestsForChanges',
+        async () => {
+            if (!settings.isConfigured()) {
+                const configure = await vscode.window.showWarningMessage(
+                    'API URL and API Key are not configured.',
+                    'Open Settings'
+                );
+                if (configure === 'Open Settings') {
+                    vscode.commands.executeCommand('workbench.action.openSettings', 'javaTestGenerator');
+                }
+                return;
+            }
+
+            const baseBranch = settings.getBaseBranch();
+
+            let changedClasses: ChangedClass[];
+            try {
+                changedClasses = await vscode.window.withProgress(
+                    {
+                        location: vscode.ProgressLocation.Window,
+                        title: `Collecting changes since ${baseBranch}`
+                    },
+                    () => collectChangedClasses(baseBranch)
+                );
+            } catch (error) {
+                reporter.showError(`Failed to collect changes: ${getUserFriendlyErrorMessage(error)}`, error);
+                return;
+            }
+
+            if (changedClasses.length === 0) {
+                vscode.window.showInformationMessage(`No changed classes with methods found since ${baseBranch}`);
+                return;
+            }
+
+            const selection = await pickMethods(changedClasses, baseBranch);
+            if (!selection || selection.size === 0) {
+                return;
+            }
+
+            // Ask for the model once instead of before every file
+            if (modelManager.isSupported() && settings.shouldPickModelBeforeGeneration()) {
+                if (!(await modelManager.pickModelForGeneration('Select Model for Changed Classes'))) {
+                    return;
+                }
+            }
+
+            // One after the other, so that existing tests can be merged file by file
+            for (const [changedClass, methods] of selection) {
+                // All methods selected means the whole class
+                const selectedMethods = methods.length < changedClass.methods.length
+                    ? methods.map(m => m.signature)
+                    : undefined;
+                await vscode.commands.executeCommand(
+                    'javaTestGenerator.generateTest',
+                    changedClass.uri,
+                    undefined,
+                    selectedMethods,
+                    { skipModelPick: true } satisfies GenerateTestCommandOptions
+                );
+            }
+        }
+    );
+}
+
+/**
+ * Reads the changed classes and determines the methods touched by the diff.
+ * Interfaces and data-only records are left out, as are classes where only
+ * code outside of methods changed.
+ */
+async function collectChangedClasses(baseBranch: string): Promise<ChangedClass[]> {
+    const fileManager = new FileManager();
+    const pathResolver = new PathResolver();
+
+    const changedClasses: ChangedClass[] = [];
+    for (const file of await findChangedJavaFiles(baseBranch)) {
+        let content: string;
+        try {
+            content = await fileManager.readFile(file.uri);
+        } catch (error) {
+            console.warn(`Failed to read changed file: ${file.uri.fsPath}`, error);
+            continue;
+        }
+
+        const kind = getTypeKind(content);
+        if (!kind || kind === 'interface' || kind === 'annotation' || isDataOnlyRecord(content)) {
+            continue;
+        }
+
+        const methods = extractMethods(content);
+        // New files are changed as a whole
+        const changedMethods = file.lines ? findChangedMethods(methods, file.lines) : methods;
+        if (changedMethods.length === 0) {
+            continue;
+        }
+
+        const testPath = pathResolver.resolveTestPath(file.uri);
+        changedClasses.push({
+            uri: file.uri,
+            testPath,
+            testExists: await fileManager.fileExists(testPath),
+            methods,
+            changedMethods
+        });
+    }
+    return changedClasses;
+}
+
+/**
+ * Lists the methods of all changed classes with the changed ones preselected
+ * @returns the selected methods per class, undefined if cancelled
+ */
+async function pickMethods(
+    changedClasses: ChangedClass[],
+    baseBranch: string
+): Promise<Map<ChangedClass, JavaMethod[]> | undefined> {
+    const items: MethodItem[] = [];
+    for (const changedClass of changedClasses) {
+        const testName = vscode.workspace.asRelativePath(changedClass.testPath);
+        items.push({
+            label: `${vscode.workspace.asRelativePath(changedClass.uri)} → ${testName}${changedClass.testExists ? '' : ' (new)'}`,
+            kind: vscode.QuickPickItemKind.Separator
+        });
+        items.push(...changedClass.methods.map(method => ({
+            label: method.name,
+            description: method.signature,
+            detail: changedClass.changedMethods.includes(method) ? 'Changed' : undefined,
+            picked: changedClass.changedMethods.includes(method),
+            changedClass,
+            method
+        })));
+    }
+
+    const picked = await vscode.window.showQuickPick(items, {
+        canPickMany: true,
+        title: `Generate Tests for Changes since ${baseBranch}`,
+        placeHolder: 'Changed methods are selected. Tests are generated for one class after the other.',
+        matchOnDescription: true
+    });
+    if (!picked) {
+        return undefined;
+    }
+
+    const selection = new Map<ChangedClass, JavaMethod[]>();
+    for (const item of picked) {
+        if (item.changedClass && item.method) {
+            selection.set(item.changedClass, [...selection.get(item.changedClass) ?? [], item.method]);
+        }
+    }
+    return selection;
+}
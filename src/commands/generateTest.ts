@@ -1,12 +1,60 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
 import { ApiClient } from '../api/client';
+import { MIN_SERVER_VERSION } from '../api/capabilities';
+import { CacheOptions } from '../api/responseCache';
 import { FileManager } from '../services/fileManager';
 import { PathResolver } from '../services/pathResolver';
+import { JobManager, PendingJob } from '../services/jobManager';
+import { describePayloadLevel, sendWithinBudget } from '../services/payloadBudget';
+import { UsageTracker } from '../services/usageTracker';
+import { DiagnosticReporter } from '../services/diagnosticReport';
+import { ModelManager } from '../services/modelManager';
 import { StatusBarManager } from '../ui/statusBar';
+import { StreamPreviewProvider, StreamPreview } from '../ui/streamPreview';
+import { TestReviewProvider, ReviewResult } from '../ui/testReview';
+import { GenerationJournal, GenerationTransaction } from '../services/generationJournal';
+import { GenerationHistory } from '../services/generationHistory';
+import { CompileChecker } from '../services/compileChecker';
 import { SettingsManager } from '../config/settings';
-import { SourceFile, GenerateTestRequest } from '../api/types';
-import { getUserFriendlyErrorMessage } from '../api/errors';
-import { mergeTestMethods, mergeImports, extractTestMethods } from '../services/javaParser';
+import { SourceFile, GenerateTestRequest, GenerateTestResponse, GenerationOptions, ServerFeature } from '../api/types';
+import {
+    getUserFriendlyErrorMessage,
+    RequestCancelledError,
+    ServerConnectionError,
+    TimeoutError
+} from '../api/errors';
+import {
+    mergeTestMethods,
+    mergeImports,
+    extractTestMethods,
+    findTestsForMethods,
+    parseTestClass
+} from '../services/javaParser';
+
+type GenerationProgress = vscode.Progress<{ message?: string; increment?: number }>;
+
+/**
+ * Options of the generate test command
+ */
+export interface GenerateTestCommandOptions {
+    // Request a fresh response instead of the cached one
+    bypassCache?: boolean;
+    // Use the remembered model without asking
+    skipModelPick?: boolean;
+    // Options (including the model) to use instead of the settings, to repeat a past generation
+    options?: GenerationOptions;
+}
+
+/**
+ * The inputs a test was generated from, kept in the generation history
+ */
+export interface GenerationInputs {
+    // Missing for jobs submitted by older versions
+    options?: GenerationOptions;
+    scenarios?: string;
+    selectedMethods?: string[];
+}
 
 /**
  * Creates the generate test command
@@ -14,11 +62,25 @@ import { mergeTestMethods, mergeImports, extractTestMethods } from '../services/
 export function createGenerateTestCommand(
     apiClient: ApiClient,
     statusBar: StatusBarManager,
-    settings: SettingsManager
+    settings: SettingsManager,
+    streamPreview: StreamPreviewProvider,
+    testReview: TestReviewProvider,
+    journal: GenerationJournal,
+    history: GenerationHistory,
+    compileChecker: CompileChecker,
+    jobManager: JobManager,
+    usageTracker: UsageTracker,
+    reporter: DiagnosticReporter,
+    modelManager: ModelManager
 ): vscode.Disposable {
     return vscode.commands.registerCommand(
         'javaTestGenerator.generateTest',
-        async (uri?: vscode.Uri, scenarios?: string) => {
+        async (
+            uri?: vscode.Uri,
+            scenarios?: string,
+            selectedMethods?: string[],
+            commandOptions: GenerateTestCommandOptions = {}
+        ) => {
             // Get the target file URI
             const targetUri = uri || vscode.window.activeTextEditor?.document.uri;
 
@@ -52,6 +114,20 @@ export function createGenerateTestCommand(
             const pathResolver = new PathResolver();
 
             try {
+                // Ask for the model unless only the remembered one should be used
+                let model: string | undefined;
+                if (commandOptions.options) {
+                    model = commandOptions.options.model;
+                } else if (modelManager.isSupported() && settings.shouldPickModelBeforeGeneration() && !commandOptions.skipModelPick) {
+                    const pick = await modelManager.pickModelForGeneration('Select Model for Test Generation');
+                    if (!pick) {
+                        return;
+                    }
+                    model = pick.model;
+                } else {
+                    model = await modelManager.getModelForRequest();
+                }
+
                 statusBar.setGenerating();
 
                 await vscode.window.withProgress(
@@ -61,6 +137,8 @@ export function createGenerateTestCommand(
                         cancellable: true
                     },
                     async (progress, token) => {
+                        const signal = toAbortSignal(token);
+
                         // Read source file content
                         progress.report({ increment: 10, message: 'Reading source file...' });
 
@@ -105,134 +183,555 @@ export function createGenerateTestCommand(
                         const request: GenerateTestRequest = {
                             sourceFile,
                             dependencies,
-                            options: {
+                            options: commandOptions.options || {
                                 testFramework: settings.getTestFramework(),
                                 mockingFramework: settings.getMockingFramework(),
                                 coverageTarget: settings.getCoverageTarget(),
-                                includeEdgeCases: settings.includeEdgeCases()
+                                includeEdgeCases: settings.includeEdgeCases(),
+                                ...(model && { model })
                             },
-                            ...(scenarios && { scenarios })
+                            ...(scenarios && { scenarios }),
+                            ...(selectedMethods && selectedMethods.length > 0 && { selectedMethods })
                         };
 
                         // Call API
                         progress.report({ increment: 20, message: 'Sending to server...' });
 
-                        const response = await apiClient.generateTest(request);
+                        let pendingJob: PendingJob | undefined;
+                        let cached = false;
+                        const cache: CacheOptions = {
+                            bypass: commandOptions.bypassCache,
+                            onHit: () => {
+                                cached = true;
+                            }
+                        };
+                        const useJobs = settings.shouldUseJobMode() &&
+                            await apiClient.supportsFeature(ServerFeature.JOBS, signal);
+
+                        // Oversized requests are reduced step by step, also when the server rejects them
+                        const response = await sendWithinBudget(
+                            request,
+                            settings.getPayloadBudget(),
+                            async (payload): Promise<GenerateTestResponse> => {
+                                if (useJobs) {
+                                    return apiClient.withCache('/generate-test', payload, cache, async () => {
+                                        const { jobId } = await apiClient.submitTestJob(payload, signal);
+                                        pendingJob = {
+                                            jobId,
+                                            sourceUri: targetUri.toString(),
+                                            fileName: sourceFile.fileName,
+                                            selectedMethods,
+                                            scenarios,
+                                            options: payload.options,
+                                            submittedAt: Date.now()
+                                        };
+                                        await jobManager.add(pendingJob);
+                                        return waitForPendingJob(apiClient, jobManager, pendingJob, progress, signal);
+                                    });
+                                }
+                                if (settings.shouldStreamPreview()) {
+                                    return generateWithPreview(
+                                        apiClient,
+                                        streamPreview,
+                                        payload,
+                                        `${className}Test.java`,
+                                        progress,
+                                        signal,
+                                        cache
+                                    );
+                                }
+                                return apiClient.generateTest(payload, signal, cache);
+                            },
+                            (level) => progress.report({ message: `Request too large, sending ${describePayloadLevel(level)}...` })
+                        );
 
-                        if (token.isCancellationRequested) {
-                            statusBar.setReady();
-                            return;
-                        }
+                        try {
+                            if (cached) {
+                                showCachedResultMessage(`Using the cached test for ${className}, no server request was made.`, () =>
+                                    vscode.commands.executeCommand(
+                                        'javaTestGenerator.generateTest',
+                                        targetUri,
+                                        scenarios,
+                                        selectedMethods,
+                                        { bypassCache: true, skipModelPick: true, options: commandOptions.options } satisfies GenerateTestCommandOptions
+                                    )
+                                );
+                            } else {
+                                // Tokens were spent even if the result is discarded
+                                await usageTracker.record(response.metadata, targetUri);
+                            }
 
-                        if (!response.success) {
-                            throw new Error('Test generation failed');
+                            if (token.isCancellationRequested) {
+                                statusBar.setReady();
+                                return;
+                            }
+
+                            if (!response.success) {
+                                throw new Error('Test generation failed');
+                            }
+
+                            // Determine save path
+                            progress.report({ increment: 30, message: 'Saving test file...' });
+
+                            await saveGeneratedTest(
+                                response,
+                                targetUri,
+                                { options: request.options, scenarios, selectedMethods },
+                                settings,
+                                statusBar,
+                                testReview,
+                                journal,
+                                history,
+                                compileChecker,
+                                progress
+                            );
+                        } finally {
+                            if (pendingJob) {
+                                await jobManager.remove(pendingJob.jobId);
+                            }
                         }
+                    }
+                );
+            } catch (error) {
+                if (error instanceof RequestCancelledError) {
+                    statusBar.setReady();
+                    return;
+                }
+                statusBar.setError(getUserFriendlyErrorMessage(error));
+                reporter.showError(`Failed to generate test: ${getUserFriendlyErrorMessage(error)}`, error);
+            }
+        }
+    );
+}
 
-                        // Determine save path
-                        progress.report({ increment: 30, message: 'Saving test file...' });
+/**
+ * Writes a generated test next to its source file, offering merge,
+ * overwrite, backup or a review of the changes when the test file
+ * already exists. New files are reviewed if reviewBeforeSave is on.
+ * The written file and backups are recorded in the journal for undo.
+ */
+export async function saveGeneratedTest(
+    response: GenerateTestResponse,
+    sourceUri: vscode.Uri,
+    inputs: GenerationInputs,
+    settings: SettingsManager,
+    statusBar: StatusBarManager,
+    testReview: TestReviewProvider,
+    journal: GenerationJournal,
+    history: GenerationHistory,
+    compileChecker: CompileChecker,
+    progress?: GenerationProgress
+): Promise<void> {
+    const { selectedMethods } = inputs;
+    const fileManager = new FileManager();
+    const pathResolver = new PathResolver();
+    const transaction = journal.begin(response.testFile.fileName);
+
+    const testPath = pathResolver.resolveTestPath(
+        sourceUri,
+        response.testFile.suggestedPath
+    );
 
-                        const testPath = pathResolver.resolveTestPath(
-                            targetUri,
-                            response.testFile.suggestedPath
-                        );
+    // Check if file exists and ask for confirmation
+    let finalContent = response.testFile.content;
+    let createBackup = false;
+
+    if (await fileManager.fileExists(testPath)) {
+        const existingContent = await fileManager.readFile(testPath);
+        const existingTestMethods = extractTestMethods(existingContent);
+        let newTestMethods = extractTestMethods(response.testFile.content);
+
+        // Only count tests for the selected methods (if any of them match)
+        let targetedTests: string[] | undefined;
+        if (selectedMethods && selectedMethods.length > 0) {
+            const testClass = parseTestClass(response.testFile.content, path.basename(sourceUri.fsPath, '.java'));
+            const targeted = findTestsForMethods(testClass, selectedMethods).map(t => t.name);
+            if (targeted.length > 0) {
+                newTestMethods = targetedTests = targeted;
+            }
+        }
 
-                        // Check if file exists and ask for confirmation
-                        let finalContent = response.testFile.content;
+        // Check if there are overlapping test methods
+        const overlapping = newTestMethods.filter(m => existingTestMethods.includes(m));
+        const newMethods = newTestMethods.filter(m => !existingTestMethods.includes(m));
 
-                        if (await fileManager.fileExists(testPath)) {
-                            const existingContent = await fileManager.readFile(testPath);
-                            const existingTestMethods = extractTestMethods(existingContent);
-                            const newTestMethods = extractTestMethods(response.testFile.content);
+        let dialogMessage = `Test file already exists: ${response.testFile.fileName}`;
+        if (newMethods.length > 0) {
+            dialogMessage += `\n\nNew test methods: ${newMethods.length}`;
+        }
+        if (overlapping.length > 0) {
+            dialogMessage += `\nOverlapping methods: ${overlapping.length}`;
+        }
 
-                            // Check if there are overlapping test methods
-                            const overlapping = newTestMethods.filter(m => existingTestMethods.includes(m));
-                            const newMethods = newTestMethods.filter(m => !existingTestMethods.includes(m));
+        const action = settings.shouldReviewBeforeSave()
+            ? 'Review Changes'
+            : await vscode.window.showWarningMessage(
+                dialogMessage,
+                { modal: true },
+                'Merge (Add New)',
+                'Overwrite',
+                'Create Backup',
+                'Review Changes',
+                'Cancel'
+            );
+
+        if (action === 'Cancel' || !action) {
+            statusBar.setReady();
+            return;
+        }
 
-                            let dialogMessage = `Test file already exists: ${response.testFile.fileName}`;
-                            if (newMethods.length > 0) {
-                                dialogMessage += `\n\nNew test methods: ${newMethods.length}`;
-                            }
-                            if (overlapping.length > 0) {
-                                dialogMessage += `\nOverlapping methods: ${overlapping.length}`;
-                            }
+        if (action === 'Review Changes') {
+            progress?.report({ message: 'Reviewing changes...' });
+            const result = await testReview.review(testPath, existingContent, response.testFile.content, targetedTests);
+            if (!result) {
+                statusBar.setReady();
+                return;
+            }
+            createBackup = result.mode === 'backup';
+            finalContent = result.content;
+            showReviewResultMessage(result);
+        } else if (action === 'Create Backup') {
+            createBackup = true;
+        } else if (action === 'Merge (Add New)') {
+            // Merge imports first
+            let mergedContent = mergeImports(existingContent, response.testFile.content);
+            // Then merge test methods
+            mergedContent = mergeTestMethods(
+                mergedContent,
+                response.testFile.content,
+                targetedTests
+            );
+            finalContent = mergedContent;
+
+            vscode.window.showInformationMessage(
+                `Merged ${newMethods.length} new test methods into existing file`
+            );
+        }
+    } else if (settings.shouldReviewBeforeSave()) {
+        progress?.report({ message: 'Reviewing changes...' });
+        const result = await testReview.review(testPath, undefined, response.testFile.content);
+        if (!result) {
+            statusBar.setReady();
+            return;
+        }
+        finalContent = result.content;
+    }
 
-                            const action = await vscode.window.showWarningMessage(
-                                dialogMessage,
-                                { modal: true },
-                                'Merge (Add New)',
-                                'Overwrite',
-                                'Create Backup',
-                                'Cancel'
-                            );
+    const historyRecord = {
+        sourceUri: sourceUri.toString(),
+        testUri: testPath.toString(),
+        ...inputs,
+        modelUsed: response.metadata?.modelUsed,
+        analysis: response.analysis,
+        journalEntryId: transaction.id
+    };
+
+    if (!settings.shouldAutoSave()) {
+        // Leave saving (and the backup) to the user
+        await fileManager.openUnsavedFile(testPath, finalContent, vscode.ViewColumn.Beside);
+        recordWhenSaved(testPath, createBackup, transaction, () => {
+            history.add(historyRecord).catch((error) => {
+                console.warn('Failed to add the test generation to the history', error);
+            });
+            compileChecker.checkAfterSave([{ sourceUri, testUri: testPath, options: inputs.options }]);
+        });
+
+        progress?.report({ increment: 100, message: 'Done!' });
+        statusBar.setSuccess(`Generated: ${response.testFile.fileName}`);
+
+        const action = await vscode.window.showInformationMessage(
+            `Test generated: ${response.testFile.fileName}. Save the editor to write the file.`,
+            'Show Analysis'
+        );
+        if (action === 'Show Analysis' && response.analysis) {
+            showAnalysisSummary(response.analysis);
+        }
+        return;
+    }
 
-                            if (action === 'Cancel' || !action) {
-                                statusBar.setReady();
-                                return;
-                            }
+    if (createBackup) {
+        const backup = await fileManager.createBackup(testPath);
+        if (backup) {
+            transaction.addBackup(backup);
+        }
+    }
 
-                            if (action === 'Create Backup') {
-                                await fileManager.createBackup(testPath);
-                            } else if (action === 'Merge (Add New)') {
-                                // Merge imports first
-                                let mergedContent = mergeImports(existingContent, response.testFile.content);
-                                // Then merge test methods
-                                mergedContent = mergeTestMethods(mergedContent, response.testFile.content);
-                                finalContent = mergedContent;
-
-                                vscode.window.showInformationMessage(
-                                    `Merged ${newMethods.length} new test methods into existing file`
-                                );
-                            }
-                        }
+    // Save test file
+    await transaction.snapshot(testPath);
+    const saveResult = await fileManager.saveTestFile(
+        testPath,
+        finalContent
+    );
+    await transaction.commit();
 
-                        // Save test file
-                        const saveResult = await fileManager.saveTestFile(
-                            testPath,
-                            finalContent
-                        );
+    if (!saveResult.success) {
+        throw new Error(`Failed to save test file: ${saveResult.error}`);
+    }
+    await history.add(historyRecord);
+    compileChecker.checkAfterSave([{ sourceUri, testUri: testPath, options: inputs.options }]);
 
-                        if (!saveResult.success) {
-                            throw new Error(`Failed to save test file: ${saveResult.error}`);
-                        }
+    progress?.report({ increment: 100, message: 'Done!' });
 
-                        progress.report({ increment: 100, message: 'Done!' });
+    // Open generated test file if enabled
+    if (settings.shouldOpenAfterGeneration()) {
+        await fileManager.openFile(testPath, vscode.ViewColumn.Beside);
+    }
 
-                        // Open generated test file if enabled
-                        if (settings.shouldOpenAfterGeneration()) {
-                            await fileManager.openFile(testPath, vscode.ViewColumn.Beside);
-                        }
+    // Show success message
+    statusBar.setSuccess(`Generated: ${response.testFile.fileName}`);
 
-                        // Show success message
-                        statusBar.setSuccess(`Generated: ${response.testFile.fileName}`);
+    const message = `Test file generated: ${response.testFile.fileName}`;
+    const action = await vscode.window.showInformationMessage(
+        message,
+        'Open File',
+        'Show Analysis'
+    );
 
-                        const message = `Test file generated: ${response.testFile.fileName}`;
-                        const action = await vscode.window.showInformationMessage(
-                            message,
-                            'Open File',
-                            'Show Analysis'
-                        );
+    if (action === 'Open File') {
+        await fileManager.openFile(testPath);
+    } else if (action === 'Show Analysis' && response.analysis) {
+        showAnalysisSummary(response.analysis);
+    }
+}
 
-                        if (action === 'Open File') {
-                            await fileManager.openFile(testPath);
-                        } else if (action === 'Show Analysis' && response.analysis) {
-                            showAnalysisSummary(response.analysis);
-                        }
+/**
+ * Creates the backup and records the journal entry when the user saves an
+ * unsaved test editor. Nothing is recorded if the editor is closed unsaved.
+ */
+function recordWhenSaved(
+    testPath: vscode.Uri,
+    createBackup: boolean,
+    transaction: GenerationTransaction,
+    onSaved: () => void
+): void {
+    const fileManager = new FileManager();
+    const isTestDocument = (document: vscode.TextDocument) => document.uri.fsPath === testPath.fsPath;
+    let saving = false;
+
+    const disposables: vscode.Disposable[] = [
+        vscode.workspace.onWillSaveTextDocument((e) => {
+            if (saving || !isTestDocument(e.document)) {
+                return;
+            }
+            saving = true;
+            e.waitUntil((async () => {
+                if (createBackup) {
+                    const backup = await fileManager.createBackup(testPath);
+                    if (backup) {
+                        transaction.addBackup(backup);
                     }
-                );
-            } catch (error) {
-                statusBar.setError(getUserFriendlyErrorMessage(error));
-                vscode.window.showErrorMessage(
-                    `Failed to generate test: ${getUserFriendlyErrorMessage(error)}`
-                );
+                }
+                await transaction.snapshot(testPath);
+            })());
+        }),
+        vscode.workspace.onDidSaveTextDocument((document) => {
+            if (saving && isTestDocument(document)) {
+                dispose();
+                transaction.commit().catch((error) => {
+                    console.warn('Failed to record the test generation', error);
+                });
+                onSaved();
+            }
+        }),
+        vscode.workspace.onDidCloseTextDocument((document) => {
+            // Untitled documents are also closed when saved to their path
+            if (!saving && isTestDocument(document)) {
+                dispose();
             }
+        })
+    ];
+    const dispose = () => disposables.forEach(d => d.dispose());
+}
+
+/**
+ * Confirms how reviewed content was applied to an existing test file
+ */
+function showReviewResultMessage(result: ReviewResult): void {
+    const count = result.acceptedMethods.length;
+    if (result.mode === 'merge') {
+        vscode.window.showInformationMessage(`Merged ${count} reviewed test method(s) into existing file`);
+    } else if (result.mode === 'backup') {
+        vscode.window.showInformationMessage(`Created a backup and saved ${count} reviewed test method(s)`);
+    }
+}
+
+/**
+ * Generates a test through the streaming API, showing the code in a
+ * preview editor as it arrives. The preview is only opened once the
+ * first chunk is received, so the blocking fallback opens nothing.
+ */
+async function generateWithPreview(
+    apiClient: ApiClient,
+    streamPreview: StreamPreviewProvider,
+    request: GenerateTestRequest,
+    previewName: string,
+    progress: GenerationProgress,
+    signal: AbortSignal,
+    cache: CacheOptions
+): Promise<GenerateTestResponse> {
+    let preview: StreamPreview | undefined;
+
+    try {
+        return await apiClient.generateTestStream(request, (content) => {
+            if (!preview) {
+                preview = streamPreview.open(previewName);
+                progress.report({ message: 'Receiving test code...' });
+            }
+            preview.append(content);
+        }, signal, cache);
+    } finally {
+        await preview?.close();
+    }
+}
+
+/**
+ * Waits for a submitted generation job. Jobs that failed or were cancelled
+ * are forgotten, jobs interrupted by connection problems are kept so they
+ * can be resumed later. Completed jobs are removed by the caller once saved.
+ */
+async function waitForPendingJob(
+    apiClient: ApiClient,
+    jobManager: JobManager,
+    job: PendingJob,
+    progress: GenerationProgress,
+    signal: AbortSignal
+): Promise<GenerateTestResponse> {
+    try {
+        return await apiClient.waitForJob(job.jobId, (status) => {
+            progress.report({ message: status.message || `Job ${status.status}...` });
+        }, signal);
+    } catch (error) {
+        if (error instanceof ServerConnectionError || error instanceof TimeoutError) {
+            throw error;
         }
+        if (error instanceof RequestCancelledError) {
+            // Stop the server from spending more tokens on the job
+            apiClient.cancelJob(job.jobId).catch((cancelError) => {
+                console.warn(`Failed to cancel job ${job.jobId}`, cancelError);
+            });
+        }
+        await jobManager.remove(job.jobId);
+        throw error;
+    }
+}
+
+/**
+ * Resumes generation jobs that were still pending when the window was
+ * closed or reloaded, saving their results through the usual flow
+ */
+export async function resumePendingJobs(
+    apiClient: ApiClient,
+    jobManager: JobManager,
+    statusBar: StatusBarManager,
+    settings: SettingsManager,
+    testReview: TestReviewProvider,
+    journal: GenerationJournal,
+    history: GenerationHistory,
+    compileChecker: CompileChecker,
+    usageTracker: UsageTracker,
+    reporter: DiagnosticReporter
+): Promise<void> {
+    await Promise.all(
+        jobManager.getPendingJobs().map(job =>
+            resumeJob(apiClient, jobManager, job, statusBar, settings, testReview, journal, history, compileChecker, usageTracker, reporter)
+        )
     );
 }
 
+async function resumeJob(
+    apiClient: ApiClient,
+    jobManager: JobManager,
+    job: PendingJob,
+    statusBar: StatusBarManager,
+    settings: SettingsManager,
+    testReview: TestReviewProvider,
+    journal: GenerationJournal,
+    history: GenerationHistory,
+    compileChecker: CompileChecker,
+    usageTracker: UsageTracker,
+    reporter: DiagnosticReporter
+): Promise<void> {
+    try {
+        statusBar.setGenerating();
+
+        await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: `Resuming test generation: ${job.fileName}`,
+                cancellable: true
+            },
+            async (progress, token) => {
+                const response = await waitForPendingJob(
+                    apiClient,
+                    jobManager,
+                    job,
+                    progress,
+                    toAbortSignal(token)
+                );
+
+                try {
+                    await usageTracker.record(response.metadata, vscode.Uri.parse(job.sourceUri));
+
+                    progress.report({ message: 'Saving test file...' });
+                    await saveGeneratedTest(
+                        response,
+                        vscode.Uri.parse(job.sourceUri),
+                        { options: job.options, scenarios: job.scenarios, selectedMethods: job.selectedMethods },
+                        settings,
+                        statusBar,
+                        testReview,
+                        journal,
+                        history,
+                        compileChecker,
+                        progress
+                    );
+                } finally {
+                    await jobManager.remove(job.jobId);
+                }
+            }
+        );
+    } catch (error) {
+        if (error instanceof RequestCancelledError) {
+            statusBar.setReady();
+            return;
+        }
+        statusBar.setError(getUserFriendlyErrorMessage(error));
+        reporter.showError(
+            `Failed to resume test generation for ${job.fileName}: ${getUserFriendlyErrorMessage(error)}`,
+            error
+        );
+    }
+}
+
+/**
+ * Tells the user that a response came from the local cache and offers
+ * to bypass it. Does not wait for the user.
+ */
+function showCachedResultMessage(message: string, regenerate: () => void): void {
+    vscode.window.showInformationMessage(message, 'Regenerate').then((action) => {
+        if (action === 'Regenerate') {
+            regenerate();
+        }
+    });
+}
+
+/**
+ * Creates an AbortSignal that aborts when the cancellation token fires
+ */
+export function toAbortSignal(token: vscode.CancellationToken): AbortSignal {
+    const controller = new AbortController();
+    if (token.isCancellationRequested) {
+        controller.abort();
+    } else {
+        token.onCancellationRequested(() => controller.abort());
+    }
+    return controller.signal;
+}
+
 /**
  * Collects dependency files based on imports
  */
-async function collectDependencies(
+export async function collectDependencies(
     content: string,
     sourceUri: vscode.Uri,
     fileManager: FileManager,
@@ -297,7 +796,8 @@ function showAnalysisSummary(analysis: import('../api/types').AnalysisResult): v
  */
 export function createAnalyzeCodeCommand(
     apiClient: ApiClient,
-    statusBar: StatusBarManager
+    statusBar: StatusBarManager,
+    reporter: DiagnosticReporter
 ): vscode.Disposable {
     return vscode.commands.registerCommand(
         'javaTestGenerator.analyzeCode',
@@ -314,6 +814,11 @@ export function createAnalyzeCodeCommand(
                 return;
             }
 
+            if (!apiClient.capabilities.has(ServerFeature.AST_ANALYSIS)) {
+                vscode.window.showWarningMessage('The connected server does not support code analysis');
+                return;
+            }
+
             const fileManager = new FileManager();
             const pathResolver = new PathResolver();
 
@@ -324,14 +829,21 @@ export function createAnalyzeCodeCommand(
                 const packageName = pathResolver.extractPackageFromContent(content);
                 const className = pathResolver.extractClassNameFromContent(content);
 
-                const response = await apiClient.analyze({
-                    sourceFile: {
-                        fileName: `${className}.java`,
-                        packageName,
-                        content
+                const response = await vscode.window.withProgress(
+                    {
+                        location: vscode.ProgressLocation.Notification,
+                        title: `Analyzing ${className}`,
+                        cancellable: true
                     },
-                    analysisTypes: ['ast', 'dependencies', 'complexity']
-                });
+                    (_progress, token) => apiClient.analyze({
+                        sourceFile: {
+                            fileName: `${className}.java`,
+                            packageName,
+                            content
+                        },
+                        analysisTypes: ['ast', 'dependencies', 'complexity']
+                    }, toAbortSignal(token))
+                );
 
                 statusBar.setReady();
 
@@ -341,10 +853,12 @@ export function createAnalyzeCodeCommand(
                     vscode.window.showWarningMessage('Analysis returned no results');
                 }
             } catch (error) {
+                if (error instanceof RequestCancelledError) {
+                    statusBar.setReady();
+                    return;
+                }
                 statusBar.setError(getUserFriendlyErrorMessage(error));
-                vscode.window.showErrorMessage(
-                    `Failed to analyze: ${getUserFriendlyErrorMessage(error)}`
-                );
+                reporter.showError(`Failed to analyze: ${getUserFriendlyErrorMessage(error)}`, error);
             }
         }
     );
@@ -392,12 +906,40 @@ function showDetailedAnalysis(
     outputChannel.show();
 }
 
+/**
+ * Creates the select model command
+ */
+export function createSelectModelCommand(
+    modelManager: ModelManager,
+    reporter: DiagnosticReporter
+): vscode.Disposable {
+    return vscode.commands.registerCommand(
+        'javaTestGenerator.selectModel',
+        async () => {
+            if (!modelManager.isSupported()) {
+                vscode.window.showWarningMessage('The connected server does not offer a model list');
+                return;
+            }
+
+            try {
+                const pick = await modelManager.pickModel();
+                if (pick) {
+                    vscode.window.showInformationMessage(`Model for this workspace: ${pick.model || 'server default'}`);
+                }
+            } catch (error) {
+                reporter.showError(`Failed to load models: ${getUserFriendlyErrorMessage(error)}`, error);
+            }
+        }
+    );
+}
+
 /**
  * Creates the check connection command
  */
 export function createCheckConnectionCommand(
     apiClient: ApiClient,
-    statusBar: StatusBarManager
+    statusBar: StatusBarManager,
+    reporter: DiagnosticReporter
 ): vscode.Disposable {
     return vscode.commands.registerCommand(
         'javaTestGenerator.checkConnection',
@@ -410,8 +952,11 @@ export function createCheckConnectionCommand(
                 if (health.status === 'healthy') {
                     statusBar.setReady();
                     const features = health.features?.join(', ') || 'N/A';
+                    const outdated = apiClient.capabilities.isVersionSupported()
+                        ? ''
+                        : ` (older than the supported minimum v${MIN_SERVER_VERSION})`;
                     vscode.window.showInformationMessage(
-                        `Connected to server v${health.version}. Features: ${features}`
+                        `Connected to server v${health.version}${outdated}. Features: ${features}`
                     );
                 } else {
                     statusBar.setDisconnected('Server is unhealthy');
@@ -419,9 +964,7 @@ export function createCheckConnectionCommand(
                 }
             } catch (error) {
                 statusBar.setDisconnected(getUserFriendlyErrorMessage(error));
-                vscode.window.showErrorMessage(
-                    `Connection failed: ${getUserFriendlyErrorMessage(error)}`
-                );
+                reporter.showError(`Connection failed: ${getUserFriendlyErrorMessage(error)}`, error);
             }
         }
     );
@@ -0,0 +1,116 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { GenerationHistory } from '../services/generationHistory';
+import { GenerationJournal } from '../services/generationJournal';
+import { HistoryItem } from '../ui/historyView';
+import { confirmAndUndo } from './undo';
+import { GenerateTestCommandOptions } from './generateTest';
+
+/**
+ * Creates the open generated test command of the history view
+ */
+export function createOpenHistoryTestCommand(): vscode.Disposable {
+    return vscode.commands.registerCommand(
+        'javaTestGenerator.history.openTest',
+        async (item: HistoryItem) => {
+            try {
+                const document = await vscode.workspace.openTextDocument(vscode.Uri.parse(item.record.testUri));
+                await vscode.window.showTextDocument(document);
+            } catch {
+                vscode.window.showWarningMessage(
+                    `${path.basename(vscode.Uri.parse(item.record.testUri).fsPath)} no longer exists`
+                );
+            }
+        }
+    );
+}
+
+/**
+ * Creates the view approved scenarios command of the history view
+ */
+export function createViewHistoryScenariosCommand(): vscode.Disposable {
+    return vscode.commands.registerCommand(
+        'javaTestGenerator.history.viewScenarios',
+        async (item: HistoryItem) => {
+            if (!item.record.scenarios) {
+                vscode.window.showInformationMessage('This generation had no approved scenarios');
+                return;
+            }
+
+            const className = path.basename(vscode.Uri.parse(item.record.sourceUri).fsPath, '.java');
+            const document = await vscode.workspace.openTextDocument({
+                language: 'markdown',
+                content: `# Approved scenarios for ${className}\n\n` +
+                    `_${new Date(item.record.timestamp).toLocaleString()}_\n\n${item.record.scenarios}\n`
+            });
+            await vscode.window.showTextDocument(document, { preview: true });
+        }
+    );
+}
+
+/**
+ * Creates the re-run generation command of the history view, which
+ * generates the test again from the same source, scenarios, methods and options
+ */
+export function createRerunGenerationCommand(): vscode.Disposable {
+    return vscode.commands.registerCommand(
+        'javaTestGenerator.history.rerun',
+        async (item: HistoryItem) => {
+            const { record } = item;
+            await vscode.commands.executeCommand(
+                'javaTestGenerator.generateTest',
+                vscode.Uri.parse(record.sourceUri),
+                record.scenarios,
+                record.selectedMethods,
+                { bypassCache: true, skipModelPick: true, options: record.options } satisfies GenerateTestCommandOptions
+            );
+        }
+    );
+}
+
+/**
+ * Creates the restore previous content command of the history view
+ */
+export function createRestoreGenerationCommand(journal: GenerationJournal): vscode.Disposable {
+    return vscode.commands.registerCommand(
+        'javaTestGenerator.history.restore',
+        async (item: HistoryItem) => {
+            const entry = item.record.journalEntryId ? journal.getEntry(item.record.journalEntryId) : undefined;
+            const testUri = vscode.Uri.parse(item.record.testUri);
+            if (!entry || !entry.files.some(f => f.uri === item.record.testUri)) {
+                vscode.window.showInformationMessage(
+                    `The content of ${path.basename(testUri.fsPath)} before this generation is no longer available`
+                );
+                return;
+            }
+
+            try {
+                if (await confirmAndUndo(journal, entry, testUri)) {
+                    vscode.window.showInformationMessage(`Restored ${path.basename(testUri.fsPath)}`);
+                }
+            } catch (error) {
+                const message = error instanceof Error ? error.message : 'Unknown error';
+                vscode.window.showErrorMessage(`Failed to restore the test file: ${message}`);
+            }
+        }
+    );
+}
+
+/**
+ * Creates the clear generation history command
+ */
+export function createClearGenerationHistoryCommand(history: GenerationHistory): vscode.Disposable {
+    return vscode.commands.registerCommand(
+        'javaTestGenerator.history.clear',
+        async () => {
+            const confirm = await vscode.window.showWarningMessage(
+                'Clear the test generation history?',
+                { modal: true, detail: 'Generated test files are not affected.' },
+                'Clear'
+            );
+            if (confirm === 'Clear') {
+                await history.clear();
+            }
+        }
+    );
+}
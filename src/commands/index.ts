@@ -2,11 +2,42 @@ import * as vscode from 'vscode';
 import { ApiClient } from '../api/client';
 import { StatusBarManager } from '../ui/statusBar';
 import { SettingsManager } from '../config/settings';
+import { StreamPreviewProvider } from '../ui/streamPreview';
+import { TestReviewProvider } from '../ui/testReview';
+import { GenerationJournal } from '../services/generationJournal';
+import { GenerationHistory } from '../services/generationHistory';
+import { CompileChecker } from '../services/compileChecker';
+import { JobManager } from '../services/jobManager';
+import { MockApiServer } from '../mock/mockServer';
+import { AuthManager } from '../auth/authManager';
+import { UsageTracker } from '../services/usageTracker';
+import { ResponseCache } from '../api/responseCache';
+import { DiagnosticReporter } from '../services/diagnosticReport';
+import { ModelManager } from '../services/modelManager';
 import {
     createGenerateTestCommand,
     createAnalyzeCodeCommand,
-    createCheckConnectionCommand
+    createCheckConnectionCommand,
+    createSelectModelCommand
 } from './generateTest';
+import {
+    createStartMockServerCommand,
+    createStopMockServerCommand,
+    createConfigureMockServerCommand
+} from './mockServer';
+import { createSignInCommand, createSignOutCommand } from './auth';
+import { createShowUsageReportCommand, createClearUsageHistoryCommand } from './usage';
+import { createClearCacheCommand } from './cache';
+import { createGenerateTestsForFolderCommand } from './batchGenerate';
+import { createGenerateTestsForChangesCommand } from './generateForChanges';
+import { createUndoLastGenerationCommand } from './undo';
+import {
+    createOpenHistoryTestCommand,
+    createViewHistoryScenariosCommand,
+    createRerunGenerationCommand,
+    createRestoreGenerationCommand,
+    createClearGenerationHistoryCommand
+} from './history';
 
 /**
  * Registers all extension commands
@@ -15,20 +46,86 @@ export function registerCommands(
     context: vscode.ExtensionContext,
     apiClient: ApiClient,
     statusBar: StatusBarManager,
-    settings: SettingsManager
+    settings: SettingsManager,
+    streamPreview: StreamPreviewProvider,
+    testReview: TestReviewProvider,
+    journal: GenerationJournal,
+    history: GenerationHistory,
+    compileChecker: CompileChecker,
+    jobManager: JobManager,
+    auth: AuthManager,
+    usageTracker: UsageTracker,
+    responseCache: ResponseCache,
+    reporter: DiagnosticReporter,
+    modelManager: ModelManager
 ): void {
     // Register generate test command
     context.subscriptions.push(
-        createGenerateTestCommand(apiClient, statusBar, settings)
+        createGenerateTestCommand(apiClient, statusBar, settings, streamPreview, testReview, journal, history, compileChecker, jobManager, usageTracker, reporter, modelManager)
+    );
+
+    // Register batch generate command (explorer folders)
+    context.subscriptions.push(
+        createGenerateTestsForFolderCommand(apiClient, statusBar, settings, usageTracker, reporter, modelManager, journal, history, compileChecker)
+    );
+
+    // Register generate tests for changed classes command
+    context.subscriptions.push(
+        createGenerateTestsForChangesCommand(settings, modelManager, reporter)
+    );
+
+    // Register undo last test generation command
+    context.subscriptions.push(
+        createUndoLastGenerationCommand(journal)
+    );
+
+    // Register generation history view commands
+    context.subscriptions.push(
+        createOpenHistoryTestCommand(),
+        createViewHistoryScenariosCommand(),
+        createRerunGenerationCommand(),
+        createRestoreGenerationCommand(journal),
+        createClearGenerationHistoryCommand(history)
     );
 
     // Register analyze code command
     context.subscriptions.push(
-        createAnalyzeCodeCommand(apiClient, statusBar)
+        createAnalyzeCodeCommand(apiClient, statusBar, reporter)
+    );
+
+    // Register select model command
+    context.subscriptions.push(
+        createSelectModelCommand(modelManager, reporter)
     );
 
     // Register check connection command
     context.subscriptions.push(
-        createCheckConnectionCommand(apiClient, statusBar)
+        createCheckConnectionCommand(apiClient, statusBar, reporter)
+    );
+
+    // Register mock server commands (offline development)
+    const mockServer = new MockApiServer();
+    context.subscriptions.push(
+        createStartMockServerCommand(mockServer, settings),
+        createStopMockServerCommand(mockServer, settings),
+        createConfigureMockServerCommand(mockServer),
+        { dispose: () => mockServer.stop() }
+    );
+
+    // Register OAuth sign in / sign out commands
+    context.subscriptions.push(
+        createSignInCommand(auth, reporter),
+        createSignOutCommand(auth)
+    );
+
+    // Register token usage commands
+    context.subscriptions.push(
+        createShowUsageReportCommand(context.extensionUri, usageTracker, settings),
+        createClearUsageHistoryCommand(usageTracker)
+    );
+
+    // Register clear response cache command
+    context.subscriptions.push(
+        createClearCacheCommand(responseCache)
     );
 }
@@ -0,0 +1,129 @@
+import * as vscode from 'vscode';
+import { SettingsManager } from '../config/settings';
+import { ApiErrorCode } from '../api/types';
+import { getUserFriendlyErrorMessage } from '../api/errors';
+import { MockApiServer } from '../mock/mockServer';
+
+// API URL that was configured before switching to the mock server
+let previousApiUrl: string | undefined;
+
+/**
+ * Creates the start mock server command
+ */
+export function createStartMockServerCommand(
+    mockServer: MockApiServer,
+    settings: SettingsManager
+): vscode.Disposable {
+    return vscode.commands.registerCommand(
+        'javaTestGenerator.startMockServer',
+        async () => {
+            try {
+                const wasRunning = mockServer.isRunning();
+                const baseUrl = await mockServer.start();
+
+                if (settings.getApiUrl() === baseUrl) {
+                    vscode.window.showInformationMessage(`Mock server is running at ${baseUrl}`);
+                    return;
+                }
+
+                const action = await vscode.window.showInformationMessage(
+                    `Mock server ${wasRunning ? 'is running' : 'started'} at ${baseUrl}`,
+                    'Use Mock Server'
+                );
+
+                if (action === 'Use Mock Server') {
+                    previousApiUrl = settings.getApiUrl();
+                    await settings.setApiUrl(baseUrl);
+                }
+            } catch (error) {
+                vscode.window.showErrorMessage(
+                    `Failed to start mock server: ${getUserFriendlyErrorMessage(error)}`
+                );
+            }
+        }
+    );
+}
+
+/**
+ * Creates the stop mock server command
+ */
+export function createStopMockServerCommand(
+    mockServer: MockApiServer,
+    settings: SettingsManager
+): vscode.Disposable {
+    return vscode.commands.registerCommand(
+        'javaTestGenerator.stopMockServer',
+        async () => {
+            if (!mockServer.isRunning()) {
+                vscode.window.showInformationMessage('Mock server is not running');
+                return;
+            }
+
+            const baseUrl = mockServer.getBaseUrl();
+            await mockServer.stop();
+
+            // Switch back to the real server if the mock server was in use
+            if (settings.getApiUrl() === baseUrl && previousApiUrl) {
+                await settings.setApiUrl(previousApiUrl);
+                vscode.window.showInformationMessage(`Mock server stopped. API URL restored to ${previousApiUrl}`);
+            } else {
+                vscode.window.showInformationMessage('Mock server stopped');
+            }
+            previousApiUrl = undefined;
+        }
+    );
+}
+
+/**
+ * Creates the configure mock server command (failure mode and latency)
+ */
+export function createConfigureMockServerCommand(
+    mockServer: MockApiServer
+): vscode.Disposable {
+    return vscode.commands.registerCommand(
+        'javaTestGenerator.configureMockServer',
+        async () => {
+            const modes: Array<vscode.QuickPickItem & { errorCode?: ApiErrorCode; rateLimit?: boolean }> = [
+                { label: 'Success', description: 'Respond normally' },
+                { label: 'Rate limit', description: '429 after 2 requests per 10 seconds', rateLimit: true },
+                ...Object.values(ApiErrorCode).map(code => ({
+                    label: code,
+                    description: 'Fail every request with this error',
+                    errorCode: code
+                }))
+            ];
+
+            const mode = await vscode.window.showQuickPick(modes, {
+                title: 'Mock Server Response',
+                placeHolder: 'Select how the mock server should respond'
+            });
+            if (!mode) {
+                return;
+            }
+
+            const latency = await vscode.window.showInputBox({
+                title: 'Mock Server Latency',
+                prompt: 'Delay in milliseconds before each response',
+                value: '0',
+                validateInput: (value) => /^\d+$/.test(value) ? undefined : 'Enter a number of milliseconds'
+            });
+            if (latency === undefined) {
+                return;
+            }
+
+            mockServer.reset();
+            mockServer.setLatency(parseInt(latency, 10));
+
+            if (mode.rateLimit) {
+                mockServer.setRateLimit({ maxRequests: 2, windowMs: 10000 });
+            } else if (mode.errorCode) {
+                mockServer.setDefault('*', {
+                    errorCode: mode.errorCode,
+                    retryAfter: mode.errorCode === ApiErrorCode.RATE_LIMIT_EXCEEDED ? 5 : undefined
+                });
+            }
+
+            vscode.window.showInformationMessage(`Mock server: ${mode.label}, ${latency}ms latency`);
+        }
+    );
+}
@@ -0,0 +1,70 @@
+import * as vscode from 'vscode';
+import { GenerationJournal, JournalEntry } from '../services/generationJournal';
+
+/**
+ * Creates the undo last test generation command
+ */
+export function createUndoLastGenerationCommand(journal: GenerationJournal): vscode.Disposable {
+    return vscode.commands.registerCommand(
+        'javaTestGenerator.undoLastGeneration',
+        async () => {
+            const entry = journal.getLastEntry();
+            if (!entry) {
+                vscode.window.showInformationMessage('There is no test generation to undo');
+                return;
+            }
+
+            try {
+                if (await confirmAndUndo(journal, entry)) {
+                    vscode.window.showInformationMessage(`Undid test generation: ${entry.label}`);
+                }
+            } catch (error) {
+                const message = error instanceof Error ? error.message : 'Unknown error';
+                vscode.window.showErrorMessage(`Failed to undo the test generation: ${message}`);
+            }
+        }
+    );
+}
+
+/**
+ * Asks for confirmation, listing files edited since the generation, and
+ * undoes the entry or only the given file of it
+ * @returns false if the user cancelled
+ */
+export async function confirmAndUndo(journal: GenerationJournal, entry: JournalEntry, uri?: vscode.Uri): Promise<boolean> {
+    const files = uri ? entry.files.filter(f => f.uri === uri.toString()) : entry.files;
+    const backups = uri && files.length < entry.files.length ? [] : entry.backups;
+
+    const restored = files.filter(f => f.previousContent !== undefined).length;
+    const created = files.length - restored;
+    const details = [
+        `Restores ${restored} file(s), deletes ${created} created file(s) and ${backups.length} backup(s).`
+    ];
+
+    // Edits made after the generation are lost as well
+    const modified = (await journal.getModifiedFiles(entry))
+        .filter(m => files.some(f => f.uri === m.toString()));
+    if (modified.length > 0) {
+        details.push(
+            '',
+            'Changed since the generation (these changes will be lost):',
+            ...modified.map(m => vscode.workspace.asRelativePath(m))
+        );
+    }
+
+    const confirm = await vscode.window.showWarningMessage(
+        `Undo test generation "${entry.label}" from ${new Date(entry.timestamp).toLocaleString()}?`,
+        { modal: true, detail: details.join('\n') },
+        'Undo'
+    );
+    if (confirm !== 'Undo') {
+        return false;
+    }
+
+    if (uri) {
+        await journal.undoFile(entry, uri);
+    } else {
+        await journal.undo(entry);
+    }
+    return true;
+}
@@ -0,0 +1,38 @@
+import * as vscode from 'vscode';
+import { SettingsManager } from '../config/settings';
+import { UsageTracker } from '../services/usageTracker';
+import { UsageReportPanel } from '../ui/usageReport';
+
+/**
+ * Creates the show usage report command
+ */
+export function createShowUsageReportCommand(
+    extensionUri: vscode.Uri,
+    usageTracker: UsageTracker,
+    settings: SettingsManager
+): vscode.Disposable {
+    return vscode.commands.registerCommand(
+        'javaTestGenerator.showUsageReport',
+        () => UsageReportPanel.show(extensionUri, usageTracker, settings)
+    );
+}
+
+/**
+ * Creates the clear usage history command
+ */
+export function createClearUsageHistoryCommand(usageTracker: UsageTracker): vscode.Disposable {
+    return vscode.commands.registerCommand(
+        'javaTestGenerator.clearUsageHistory',
+        async () => {
+            const action = await vscode.window.showWarningMessage(
+                'Delete all recorded token usage?',
+                { modal: true },
+                'Delete'
+            );
+            if (action === 'Delete') {
+                await usageTracker.clear();
+                vscode.window.showInformationMessage('Token usage history cleared');
+            }
+        }
+    );
+}
@@ -1,4 +1,6 @@
 import * as vscode from 'vscode';
+import * as os from 'os';
+import { NetworkOptions } from '../api/network';
 
 /**
  * Secure settings manager with SecretStorage for sensitive data
@@ -16,7 +18,10 @@ export class SettingsManager {
         this.secretStorage = secretStorage;
 
         vscode.workspace.onDidChangeConfiguration((e) => {
-            if (e.affectsConfiguration(SettingsManager.SECTION)) {
+            if (e.affectsConfiguration(SettingsManager.SECTION) ||
+                e.affectsConfiguration('http.proxy') ||
+                e.affectsConfiguration('http.noProxy') ||
+                e.affectsConfiguration('http.proxyStrictSSL')) {
                 this.onChangeEmitter.fire();
             }
         });
@@ -115,6 +120,133 @@ export class SettingsManager {
         return this.getConfig().get<number>('timeout', 120000);
     }
 
+    public getMaxRetries(): number {
+        return this.getConfig().get<number>('maxRetries', 3);
+    }
+
+    public getRetryBaseDelay(): number {
+        return this.getConfig().get<number>('retryBaseDelay', 1000);
+    }
+
+    public shouldStreamPreview(): boolean {
+        return this.getConfig().get<boolean>('streamPreview', true);
+    }
+
+    public getSelfHealingMaxIterations(): number {
+        return this.getConfig().get<number>('selfHealingMaxIterations', 3);
+    }
+
+    public shouldReviewBeforeSave(): boolean {
+        return this.getConfig().get<boolean>('reviewBeforeSave', false);
+    }
+
+    /**
+     * Whether test sources are compiled with Maven/Gradle after a generated test is saved
+     */
+    public shouldCompileCheckAfterSave(): boolean {
+        return this.getConfig().get<boolean>('compileCheckAfterSave', false);
+    }
+
+    public shouldShowCodeLens(): boolean {
+        return this.getConfig().get<boolean>('showCodeLens', true);
+    }
+
+    /**
+     * Whether public methods of Spring beans without a matching test are flagged as diagnostics
+     */
+    public shouldFlagUntestedMethods(): boolean {
+        return this.getConfig().get<boolean>('flagUntestedMethods', false);
+    }
+
+    public shouldUseJobMode(): boolean {
+        return this.getConfig().get<boolean>('jobMode', false);
+    }
+
+    public shouldPickModelBeforeGeneration(): boolean {
+        return this.getConfig().get<boolean>('pickModelBeforeGeneration', true);
+    }
+
+    /**
+     * Number of classes generated in parallel by the batch command
+     */
+    public getBatchConcurrency(): number {
+        return this.getConfig().get<number>('batchConcurrency', 3);
+    }
+
+    /**
+     * Branch whose merge-base marks the start of the changes to generate tests for
+     */
+    public getBaseBranch(): string {
+        return this.getConfig().get<string>('baseBranch', 'main').trim() || 'main';
+    }
+
+    public getPayloadBudget(): number {
+        return this.getConfig().get<number>('payloadBudget', 524288);
+    }
+
+    public isResponseCacheEnabled(): boolean {
+        return this.getConfig().get<boolean>('responseCache', true);
+    }
+
+    /**
+     * Size limit of the response cache in MB
+     */
+    public getResponseCacheSize(): number {
+        return this.getConfig().get<number>('responseCacheSize', 50);
+    }
+
+    /**
+     * Monthly token budget for the usage warning (0 disables it)
+     */
+    public getMonthlyTokenQuota(): number {
+        return this.getConfig().get<number>('monthlyTokenQuota', 0);
+    }
+
+    /**
+     * Percentage of the monthly quota at which to warn
+     */
+    public getQuotaWarningThreshold(): number {
+        return this.getConfig().get<number>('quotaWarningThreshold', 80);
+    }
+
+    public getAuthMode(): 'apiKey' | 'oauthDeviceFlow' {
+        return this.getConfig().get<'apiKey' | 'oauthDeviceFlow'>('authMode', 'apiKey');
+    }
+
+    /**
+     * OAuth2 device authorization grant endpoints and client
+     */
+    public getOAuthSettings(): { deviceAuthorizationUrl: string; tokenUrl: string; clientId: string; scope: string } {
+        const config = this.getConfig();
+        return {
+            deviceAuthorizationUrl: config.get<string>('oauthDeviceAuthorizationUrl', '').trim(),
+            tokenUrl: config.get<string>('oauthTokenUrl', '').trim(),
+            clientId: config.get<string>('oauthClientId', '').trim(),
+            scope: config.get<string>('oauthScope', '').trim()
+        };
+    }
+
+    /**
+     * Proxy and TLS settings. The proxy falls back to VS Code's http.proxy,
+     * and hosts in http.noProxy or the NO_PROXY environment variable skip it.
+     */
+    public getNetworkOptions(): NetworkOptions {
+        const httpConfig = vscode.workspace.getConfiguration('http');
+        const getPath = (key: string) => this.getConfig().get<string>(key, '').trim().replace(/^~(?=$|[\\/])/, os.homedir()) || undefined;
+
+        return {
+            proxy: this.getConfig().get<string>('proxy', '').trim() || httpConfig.get<string>('proxy', '').trim() || undefined,
+            noProxy: [
+                ...httpConfig.get<string[]>('noProxy', []),
+                ...(process.env.NO_PROXY || process.env.no_proxy || '').split(',')
+            ].map(entry => entry.trim()).filter(Boolean),
+            strictSSL: httpConfig.get<boolean>('proxyStrictSSL', true),
+            caFile: getPath('caFile'),
+            clientCertFile: getPath('clientCertificate'),
+            clientKeyFile: getPath('clientKey')
+        };
+    }
+
     /**
      * Securely stores API key using VS Code's SecretStorage
      * Falls back to configuration if SecretStorage is not available
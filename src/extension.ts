@@ -1,13 +1,32 @@
 import * as vscode from 'vscode';
 import { ApiClient } from './api/client';
+import { MIN_SERVER_VERSION } from './api/capabilities';
 import { SettingsManager } from './config/settings';
+import { AuthManager } from './auth/authManager';
+import { UsageTracker } from './services/usageTracker';
+import { ResponseCache } from './api/responseCache';
+import { DiagnosticReporter } from './services/diagnosticReport';
+import { ModelManager } from './services/modelManager';
 import { StatusBarManager } from './ui/statusBar';
 import { SidebarProvider } from './ui/sidebarProvider';
+import { StreamPreviewProvider } from './ui/streamPreview';
+import { TestReviewProvider } from './ui/testReview';
+import { JobManager } from './services/jobManager';
+import { GenerationJournal } from './services/generationJournal';
+import { GenerationHistory } from './services/generationHistory';
+import { HistoryTreeProvider } from './ui/historyView';
+import { CompileChecker } from './services/compileChecker';
+import { TestCodeLensProvider } from './ui/testCodeLens';
+import { UntestedMethodsProvider } from './ui/untestedMethods';
 import { registerCommands } from './commands';
+import { resumePendingJobs } from './commands/generateTest';
 
 // Extension output channel for logging
 let outputChannel: vscode.OutputChannel;
 
+// Server version the outdated-server warning was last shown for
+let warnedServerVersion: string | undefined;
+
 /**
  * Extension activation
  */
@@ -22,17 +41,77 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
             dispose: () => settings.dispose()
         });
 
+        // Initialize authentication (API key or OAuth device flow)
+        const auth = new AuthManager(settings, context.secrets);
+        context.subscriptions.push({
+            dispose: () => auth.dispose()
+        });
+
+        // Cache responses so that identical requests are not paid for twice
+        const responseCache = new ResponseCache(context.globalStorageUri, settings);
+
         // Initialize API client
-        const apiClient = new ApiClient(settings);
+        const apiClient = new ApiClient(settings, auth, responseCache);
+        context.subscriptions.push({
+            dispose: () => apiClient.dispose()
+        });
+
+        // Log negotiated capabilities and warn about outdated servers
+        context.subscriptions.push(
+            apiClient.capabilities.onDidChange(() => {
+                const capabilities = apiClient.capabilities;
+                const version = capabilities.getVersion();
+                if (!version) {
+                    return;
+                }
+
+                outputChannel.appendLine(`Server v${version} features: ${capabilities.getFeatures().join(', ') || 'none'}`);
+
+                if (!capabilities.isVersionSupported() && warnedServerVersion !== version) {
+                    warnedServerVersion = version;
+                    vscode.window.showWarningMessage(
+                        `The server (v${version}) is older than the minimum version this extension supports (v${MIN_SERVER_VERSION}). ` +
+                        'Some features may not work until the server is updated.'
+                    );
+                }
+            })
+        );
+
+        // Offer diagnostic reports on error notifications
+        const reporter = new DiagnosticReporter(context.extension.packageJSON.version, apiClient, settings);
+
+        // Remember the selected model per workspace
+        const modelManager = new ModelManager(context.workspaceState, apiClient);
+        context.subscriptions.push(modelManager);
+
+        // Record token usage of every generation
+        const usageTracker = new UsageTracker(context.globalState, settings);
+        context.subscriptions.push(usageTracker);
 
         // Initialize status bar
         const statusBar = new StatusBarManager(context);
 
+        // Show retry attempts in the status bar
+        context.subscriptions.push(
+            apiClient.onDidRetry((e) => {
+                outputChannel.appendLine(`${e.reason}, retrying (attempt ${e.attempt}/${e.maxAttempts}) in ${e.delay}ms`);
+                statusBar.setRetrying(e.attempt, e.maxAttempts, e.delay, e.reason);
+            })
+        );
+
+        // Record what each generation wrote so that it can be undone
+        const journal = new GenerationJournal(context.workspaceState);
+        context.subscriptions.push(journal);
+
         // Initialize sidebar
         const sidebarProvider = new SidebarProvider(
             context.extensionUri,
             apiClient,
-            settings
+            settings,
+            usageTracker,
+            reporter,
+            modelManager,
+            journal
         );
         context.subscriptions.push(
             vscode.window.registerWebviewViewProvider(
@@ -41,8 +120,68 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
             )
         );
 
+        // Initialize live preview for streamed generation
+        const streamPreview = new StreamPreviewProvider();
+        context.subscriptions.push(
+            vscode.workspace.registerTextDocumentContentProvider(
+                StreamPreviewProvider.scheme,
+                streamPreview
+            ),
+            streamPreview
+        );
+
+        // Diff review of generated tests before saving
+        const testReview = new TestReviewProvider();
+        context.subscriptions.push(
+            vscode.workspace.registerTextDocumentContentProvider(
+                TestReviewProvider.scheme,
+                testReview
+            ),
+            testReview
+        );
+
+        // Track server-side generation jobs across window reloads
+        const jobManager = new JobManager(context.workspaceState);
+
+        // Show past generations in the activity bar
+        const history = new GenerationHistory(context.workspaceState);
+        const historyProvider = new HistoryTreeProvider(history, journal);
+        context.subscriptions.push(
+            history,
+            historyProvider,
+            vscode.window.registerTreeDataProvider(HistoryTreeProvider.viewType, historyProvider)
+        );
+
+        // Compile generated tests after saving and show the compiler errors
+        const compileChecker = new CompileChecker(apiClient, settings, journal, usageTracker, reporter, modelManager);
+        context.subscriptions.push(compileChecker);
+
+        // Go to test / Generate test above each public method
+        const codeLensProvider = new TestCodeLensProvider(settings);
+        context.subscriptions.push(
+            vscode.languages.registerCodeLensProvider(TestCodeLensProvider.selector, codeLensProvider),
+            codeLensProvider
+        );
+
+        // Quick fix (and optional diagnostics) for untested Spring bean methods
+        const untestedMethodsProvider = new UntestedMethodsProvider(settings);
+        context.subscriptions.push(
+            vscode.languages.registerCodeActionsProvider(
+                UntestedMethodsProvider.selector,
+                untestedMethodsProvider,
+                UntestedMethodsProvider.metadata
+            ),
+            untestedMethodsProvider
+        );
+
         // Register all commands
-        registerCommands(context, apiClient, statusBar, settings);
+        registerCommands(context, apiClient, statusBar, settings, streamPreview, testReview, journal, history, compileChecker, jobManager, auth, usageTracker, responseCache, reporter, modelManager);
+
+        // Resume jobs interrupted by a reload (non-blocking)
+        if (settings.isConfigured() && jobManager.getPendingJobs().length > 0) {
+            outputChannel.appendLine(`Resuming ${jobManager.getPendingJobs().length} pending generation job(s)`);
+            resumePendingJobs(apiClient, jobManager, statusBar, settings, testReview, journal, history, compileChecker, usageTracker, reporter);
+        }
 
         // Check server connection on activation (non-blocking)
         checkServerConnection(apiClient, statusBar, settings);
@@ -57,6 +196,14 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
             })
         );
 
+        // Recheck the connection after signing in or out
+        context.subscriptions.push(
+            auth.deviceFlow.onDidChangeSession((signedIn) => {
+                outputChannel.appendLine(signedIn ? 'Signed in, rechecking connection...' : 'Signed out');
+                checkServerConnection(apiClient, statusBar, settings);
+            })
+        );
+
         outputChannel.appendLine('Test-AutoEvermation extension activated successfully');
     } catch (error) {
         const message = error instanceof Error ? error.message : 'Unknown error';
@@ -0,0 +1,265 @@
+import {
+    ApiErrorCode,
+    ApiErrorResponse,
+    AnalyzeRequest,
+    AnalyzeResponse,
+    FixTestRequest,
+    GenerateScenariosRequest,
+    GenerateScenariosResponse,
+    GenerateTestRequest,
+    GenerateTestResponse,
+    GenerationOptions,
+    ModelListResponse,
+    SourceFile
+} from '../api/types';
+import { extractMethods, extractImports, getMethodNameFromSignature, JavaMethod } from '../services/javaParser';
+
+/**
+ * HTTP status the real server uses for each error code
+ */
+export const ERROR_STATUS: Record<ApiErrorCode, number> = {
+    [ApiErrorCode.INVALID_API_KEY]: 401,
+    [ApiErrorCode.RATE_LIMIT_EXCEEDED]: 429,
+    [ApiErrorCode.INVALID_JAVA_SYNTAX]: 400,
+    [ApiErrorCode.MISSING_REQUIRED_FIELD]: 400,
+    [ApiErrorCode.FILE_TOO_LARGE]: 413,
+    [ApiErrorCode.GENERATION_FAILED]: 500,
+    [ApiErrorCode.VALIDATION_FAILED]: 422,
+    [ApiErrorCode.SERVICE_UNAVAILABLE]: 503
+};
+
+const DEFAULT_ERROR_MESSAGES: Record<ApiErrorCode, string> = {
+    [ApiErrorCode.INVALID_API_KEY]: 'Invalid or expired API key',
+    [ApiErrorCode.RATE_LIMIT_EXCEEDED]: 'Rate limit exceeded',
+    [ApiErrorCode.INVALID_JAVA_SYNTAX]: 'Unexpected token',
+    [ApiErrorCode.MISSING_REQUIRED_FIELD]: 'Missing required field',
+    [ApiErrorCode.FILE_TOO_LARGE]: 'Request payload is too large',
+    [ApiErrorCode.GENERATION_FAILED]: 'Test generation failed',
+    [ApiErrorCode.VALIDATION_FAILED]: 'Generated test failed validation',
+    [ApiErrorCode.SERVICE_UNAVAILABLE]: 'Service is temporarily unavailable'
+};
+
+let requestCounter = 0;
+
+function nextRequestId(): string {
+    requestCounter++;
+    return `mock-${Date.now().toString(36)}-${requestCounter}`;
+}
+
+/**
+ * Builds an error response body for the given error code
+ */
+export function buildErrorResponse(
+    code: ApiErrorCode,
+    message?: string,
+    details?: Record<string, unknown>
+): ApiErrorResponse {
+    return {
+        success: false,
+        error: {
+            code,
+            message: message || DEFAULT_ERROR_MESSAGES[code],
+            details: details || (code === ApiErrorCode.INVALID_JAVA_SYNTAX ? { line: 1, column: 1 } : undefined),
+            requestId: nextRequestId()
+        }
+    };
+}
+
+/**
+ * Builds a deterministic test class covering the (selected) public methods
+ */
+export function buildGenerateTestResponse(request: GenerateTestRequest): GenerateTestResponse {
+    const className = getClassName(request.sourceFile);
+    const testClassName = `${className}Test`;
+    const methods = getTargetMethods(request.sourceFile.content, request.selectedMethods);
+    const packagePath = request.sourceFile.packageName.replace(/\./g, '/');
+
+    return {
+        success: true,
+        testFile: {
+            fileName: `${testClassName}.java`,
+            packageName: request.sourceFile.packageName,
+            content: buildTestClass(request.sourceFile, request.options, methods),
+            suggestedPath: ['src/test/java', packagePath, `${testClassName}.java`].filter(p => p).join('/')
+        },
+        analysis: {
+            astSummary: {
+                methodCount: methods.length,
+                publicMethods: methods.map(m => m.name),
+                dependencies: (request.dependencies || []).map(d => d.fileName.replace(/\.java$/, ''))
+            },
+            mockingSuggestions: (request.dependencies || []).map(d => ({
+                interface: d.fileName.replace(/\.java$/, ''),
+                suggestedMocks: []
+            }))
+        },
+        metadata: {
+            generationTime: 0,
+            tokensUsed: request.sourceFile.content.length,
+            modelUsed: request.options.model || 'mock',
+            retryCount: 0
+        }
+    };
+}
+
+/**
+ * Returns the test file unchanged, marked with the fix iteration
+ */
+export function buildFixTestResponse(request: FixTestRequest): GenerateTestResponse {
+    const packagePath = request.testFile.packageName.replace(/\./g, '/');
+
+    return {
+        success: true,
+        testFile: {
+            fileName: request.testFile.fileName,
+            packageName: request.testFile.packageName,
+            content: `// Fixed by mock server (iteration ${request.iteration})\n${request.testFile.content}`,
+            suggestedPath: ['src/test/java', packagePath, request.testFile.fileName].filter(p => p).join('/')
+        },
+        analysis: {
+            selfHealingGuide: 'Mock server: no changes were made to the test logic.'
+        },
+        metadata: {
+            generationTime: 0,
+            modelUsed: request.options.model || 'mock'
+        }
+    };
+}
+
+/**
+ * Lists two mock models, the first one being the server default
+ */
+export function buildModelListResponse(): ModelListResponse {
+    return {
+        success: true,
+        models: [
+            { id: 'mock', name: 'Mock', description: 'Deterministic template-based tests', default: true },
+            { id: 'mock-large', name: 'Mock Large', description: 'Same output, for trying model selection' }
+        ]
+    };
+}
+
+/**
+ * Builds one scenario line per (selected) public method
+ */
+export function buildScenariosResponse(request: GenerateScenariosRequest): GenerateScenariosResponse {
+    const methods = getTargetMethods(request.sourceFile.content, request.selectedMethods);
+    const scenarios: string[] = [];
+
+    methods.forEach(method => {
+        scenarios.push(`${scenarios.length + 1}. ${method.name}: returns the expected result for valid input`);
+        if (request.options.includeEdgeCases) {
+            scenarios.push(`${scenarios.length + 1}. ${method.name}: handles invalid or empty input`);
+        }
+    });
+
+    return {
+        success: true,
+        scenarios: scenarios.join('\n') || '1. No public methods found'
+    };
+}
+
+/**
+ * Builds a simple static analysis of the source file
+ */
+export function buildAnalyzeResponse(request: AnalyzeRequest): AnalyzeResponse {
+    const content = request.sourceFile.content;
+    const methods = extractMethods(content);
+    const publicMethods = methods.filter(m => m.modifiers.includes('public'));
+    const imports = extractImports(content);
+    const injectedBeans = imports
+        .filter(imp => !imp.startsWith('java.') && !imp.startsWith('org.springframework.'))
+        .map(imp => imp.substring(imp.lastIndexOf('.') + 1));
+    const branches = content.match(/\b(?:if|for|while|case|catch)\b|&&|\|\||\?/g) || [];
+
+    const analysis: AnalyzeResponse['analysis'] = {};
+
+    if (request.analysisTypes.includes('ast')) {
+        analysis.ast = {
+            methodCount: methods.length,
+            publicMethods: publicMethods.map(m => m.name),
+            dependencies: injectedBeans
+        };
+    }
+    if (request.analysisTypes.includes('dependencies')) {
+        analysis.dependencies = { imports, injectedBeans };
+    }
+    if (request.analysisTypes.includes('complexity')) {
+        analysis.complexity = {
+            cyclomaticComplexity: branches.length + 1,
+            linesOfCode: content.split('\n').filter(line => line.trim() !== '').length
+        };
+    }
+
+    return { success: true, analysis };
+}
+
+function getClassName(sourceFile: SourceFile): string {
+    const classMatch = sourceFile.content.match(/(?:class|interface|enum|record)\s+(\w+)/);
+    return classMatch ? classMatch[1] : sourceFile.fileName.replace(/\.java$/, '');
+}
+
+function getTargetMethods(content: string, selectedMethods?: string[]): JavaMethod[] {
+    const publicMethods = extractMethods(content).filter(m => m.modifiers.includes('public'));
+
+    if (!selectedMethods || selectedMethods.length === 0) {
+        return publicMethods;
+    }
+
+    const selectedNames = selectedMethods.map(getMethodNameFromSignature);
+    return publicMethods.filter(m => selectedNames.includes(m.name));
+}
+
+function buildTestClass(sourceFile: SourceFile, options: GenerationOptions, methods: JavaMethod[]): string {
+    const className = getClassName(sourceFile);
+    const junit5 = options.testFramework === 'junit5';
+    const mockito = options.mockingFramework === 'mockito';
+    const imports: string[] = [];
+    let classAnnotation: string;
+    let subjectAnnotation: string;
+
+    if (junit5) {
+        imports.push('org.junit.jupiter.api.Test', 'org.junit.jupiter.api.extension.ExtendWith');
+        imports.push('static org.junit.jupiter.api.Assertions.assertNotNull');
+    } else {
+        imports.push('org.junit.Test', 'org.junit.runner.RunWith');
+        imports.push('static org.junit.Assert.assertNotNull');
+    }
+
+    if (mockito) {
+        imports.push('org.mockito.InjectMocks');
+        imports.push(junit5 ? 'org.mockito.junit.jupiter.MockitoExtension' : 'org.mockito.junit.MockitoJUnitRunner');
+        classAnnotation = junit5 ? '@ExtendWith(MockitoExtension.class)' : '@RunWith(MockitoJUnitRunner.class)';
+        subjectAnnotation = '@InjectMocks';
+    } else {
+        imports.push('org.easymock.TestSubject');
+        imports.push(junit5 ? 'org.easymock.EasyMockExtension' : 'org.easymock.EasyMockRunner');
+        classAnnotation = junit5 ? '@ExtendWith(EasyMockExtension.class)' : '@RunWith(EasyMockRunner.class)';
+        subjectAnnotation = '@TestSubject';
+    }
+
+    const visibility = junit5 ? '' : 'public ';
+    const lines: string[] = [];
+
+    if (sourceFile.packageName) {
+        lines.push(`package ${sourceFile.packageName};`, '');
+    }
+    lines.push(...imports.map(imp => `import ${imp};`), '');
+    lines.push(classAnnotation);
+    lines.push(`${visibility}class ${className}Test {`, '');
+    lines.push(`    ${subjectAnnotation}`);
+    lines.push(`    private ${className} subject;`);
+
+    for (const method of methods) {
+        const testName = `test${method.name.charAt(0).toUpperCase()}${method.name.substring(1)}`;
+        lines.push('');
+        lines.push('    @Test');
+        lines.push(`    ${visibility}void ${testName}() {`);
+        lines.push(`        // Generated by the mock server for: ${method.signature}`);
+        lines.push('        assertNotNull(subject);');
+        lines.push('    }');
+    }
+
+    lines.push('}', '');
+    return lines.join('\n');
+}
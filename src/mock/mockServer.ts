@@ -0,0 +1,404 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import {
+    ApiErrorCode,
+    AnalyzeRequest,
+    FixTestRequest,
+    GenerateScenariosRequest,
+    GenerateTestRequest,
+    HealthCheckResponse,
+    ServerFeature
+} from '../api/types';
+import {
+    ERROR_STATUS,
+    buildAnalyzeResponse,
+    buildErrorResponse,
+    buildFixTestResponse,
+    buildGenerateTestResponse,
+    buildModelListResponse,
+    buildScenariosResponse
+} from './mockResponses';
+
+/**
+ * Endpoints served by the mock server (relative to /api/v1)
+ */
+export type MockEndpoint =
+    | 'health'
+    | 'generate-test'
+    | 'generate-test/stream'
+    | 'generate-scenarios'
+    | 'analyze'
+    | 'fix-test'
+    | 'models';
+
+const ENDPOINTS: MockEndpoint[] = [
+    'health',
+    'generate-test',
+    'generate-test/stream',
+    'generate-scenarios',
+    'analyze',
+    'fix-test',
+    'models'
+];
+
+// Endpoints without a request body
+const GET_ENDPOINTS: MockEndpoint[] = ['health', 'models'];
+
+/**
+ * Scripted behaviour for a request
+ */
+export interface MockResponseScript {
+    // Respond with this API error instead of a successful result
+    errorCode?: ApiErrorCode;
+    message?: string;
+    details?: Record<string, unknown>;
+    // Overrides the HTTP status (defaults to the status of the error code)
+    status?: number;
+    // Retry-After header in seconds, sent with RATE_LIMIT_EXCEEDED
+    retryAfter?: number;
+    // Delay in milliseconds before the response is sent
+    latency?: number;
+    // Raw response body, bypasses the built-in responses
+    body?: unknown;
+}
+
+/**
+ * Mock server configuration
+ */
+export interface MockServerOptions {
+    host?: string;
+    // 0 picks a free port
+    port?: number;
+    // Default delay in milliseconds for every request
+    latency?: number;
+    // When set, requests without this X-API-Key are rejected with 401
+    apiKey?: string;
+    // Simulates server-side rate limiting with 429 responses
+    rateLimit?: { maxRequests: number; windowMs: number };
+    version?: string;
+    features?: string[];
+}
+
+/**
+ * Request received by the mock server
+ */
+export interface MockRequestRecord {
+    endpoint: MockEndpoint;
+    headers: http.IncomingHttpHeaders;
+    body: unknown;
+    receivedAt: number;
+}
+
+/**
+ * Local stand-in for the Testing Automation ChatBot server.
+ * Serves the API contract from api/types.ts with deterministic responses
+ * and can be scripted to return any ApiErrorCode, inject latency and
+ * simulate authentication and rate limit failures.
+ */
+export class MockApiServer {
+    private static readonly BASE_PATH = '/api/v1';
+
+    private server?: http.Server;
+    private options: MockServerOptions;
+    private queued = new Map<MockEndpoint, MockResponseScript[]>();
+    private defaults = new Map<MockEndpoint | '*', MockResponseScript>();
+    private requests: MockRequestRecord[] = [];
+    private requestTimes: number[] = [];
+
+    constructor(options: MockServerOptions = {}) {
+        this.options = options;
+    }
+
+    /**
+     * Starts listening and returns the API base URL
+     */
+    public async start(): Promise<string> {
+        if (this.server) {
+            return this.getBaseUrl();
+        }
+
+        const server = http.createServer((req, res) => {
+            this.handleRequest(req, res).catch((error) => {
+                console.error('[MockApiServer] Request handling failed:', error);
+                if (!res.headersSent) {
+                    this.sendJson(res, 500, buildErrorResponse(ApiErrorCode.GENERATION_FAILED, String(error)));
+                } else {
+                    res.end();
+                }
+            });
+        });
+
+        await new Promise<void>((resolve, reject) => {
+            server.once('error', reject);
+            server.listen(this.options.port ?? 0, this.options.host ?? '127.0.0.1', () => {
+                server.off('error', reject);
+                resolve();
+            });
+        });
+
+        this.server = server;
+        return this.getBaseUrl();
+    }
+
+    /**
+     * Stops the server and closes open connections
+     */
+    public async stop(): Promise<void> {
+        const server = this.server;
+        if (!server) {
+            return;
+        }
+
+        this.server = undefined;
+        server.closeAllConnections();
+        await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+
+    public isRunning(): boolean {
+        return Boolean(this.server);
+    }
+
+    /**
+     * Gets the API base URL (including /api/v1)
+     */
+    public getBaseUrl(): string {
+        const address = this.server?.address() as AddressInfo | null | undefined;
+        if (!address) {
+            return '';
+        }
+        return `http://${this.options.host ?? '127.0.0.1'}:${address.port}${MockApiServer.BASE_PATH}`;
+    }
+
+    /**
+     * Queues a one-shot response for the next request to an endpoint
+     */
+    public enqueue(endpoint: MockEndpoint, script: MockResponseScript): void {
+        const queue = this.queued.get(endpoint) || [];
+        queue.push(script);
+        this.queued.set(endpoint, queue);
+    }
+
+    /**
+     * Sets the behaviour for every request to an endpoint ('*' for all
+     * endpoints except health). Pass undefined to restore the default.
+     */
+    public setDefault(endpoint: MockEndpoint | '*', script: MockResponseScript | undefined): void {
+        if (script) {
+            this.defaults.set(endpoint, script);
+        } else {
+            this.defaults.delete(endpoint);
+        }
+    }
+
+    public setLatency(latency: number): void {
+        this.options.latency = latency;
+    }
+
+    public setApiKey(apiKey: string | undefined): void {
+        this.options.apiKey = apiKey;
+    }
+
+    public setRateLimit(rateLimit: MockServerOptions['rateLimit']): void {
+        this.options.rateLimit = rateLimit;
+        this.requestTimes = [];
+    }
+
+    /**
+     * Gets the requests received so far (for assertions in tests)
+     */
+    public getRequests(): MockRequestRecord[] {
+        return [...this.requests];
+    }
+
+    /**
+     * Clears scripted responses, recorded requests and simulated failures
+     */
+    public reset(): void {
+        this.queued.clear();
+        this.defaults.clear();
+        this.requests = [];
+        this.requestTimes = [];
+        this.options.latency = undefined;
+        this.options.apiKey = undefined;
+        this.options.rateLimit = undefined;
+    }
+
+    private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+        const pathname = new URL(req.url || '/', 'http://localhost').pathname;
+        const route = pathname.replace(MockApiServer.BASE_PATH, '').replace(/^\/+|\/+$/g, '');
+        const endpoint = ENDPOINTS.find(e => e === route);
+
+        if (!endpoint || GET_ENDPOINTS.includes(endpoint) !== (req.method === 'GET')) {
+            this.sendJson(res, 404, buildErrorResponse(
+                ApiErrorCode.MISSING_REQUIRED_FIELD,
+                `Unknown endpoint: ${req.method} ${pathname}`
+            ));
+            return;
+        }
+
+        let body: unknown;
+        try {
+            body = await this.readBody(req);
+        } catch {
+            this.sendJson(res, 400, buildErrorResponse(ApiErrorCode.MISSING_REQUIRED_FIELD, 'Request body is not valid JSON'));
+            return;
+        }
+
+        this.requests.push({ endpoint, headers: req.headers, body, receivedAt: Date.now() });
+
+        const script = this.queued.get(endpoint)?.shift()
+            ?? this.defaults.get(endpoint)
+            ?? (endpoint !== 'health' ? this.defaults.get('*') : undefined);
+
+        await delay(script?.latency ?? this.options.latency ?? 0);
+
+        if (this.options.apiKey && endpoint !== 'health' && req.headers['x-api-key'] !== this.options.apiKey) {
+            this.sendError(res, { errorCode: ApiErrorCode.INVALID_API_KEY });
+            return;
+        }
+
+        if (endpoint !== 'health' && this.isRateLimited()) {
+            this.sendError(res, {
+                errorCode: ApiErrorCode.RATE_LIMIT_EXCEEDED,
+                retryAfter: Math.ceil((this.options.rateLimit?.windowMs ?? 1000) / 1000)
+            });
+            return;
+        }
+
+        if (script?.body !== undefined) {
+            this.sendJson(res, script.status ?? 200, script.body);
+            return;
+        }
+
+        if (script?.errorCode) {
+            this.sendError(res, script);
+            return;
+        }
+
+        if (!GET_ENDPOINTS.includes(endpoint) && !this.hasSourceFile(body)) {
+            this.sendError(res, {
+                errorCode: ApiErrorCode.MISSING_REQUIRED_FIELD,
+                message: 'sourceFile.content is required',
+                details: { field: 'sourceFile.content' }
+            });
+            return;
+        }
+
+        switch (endpoint) {
+            case 'health':
+                this.sendJson(res, 200, this.buildHealth());
+                break;
+            case 'generate-test':
+                this.sendJson(res, 200, buildGenerateTestResponse(body as GenerateTestRequest));
+                break;
+            case 'generate-test/stream':
+                await this.sendStream(res, body as GenerateTestRequest);
+                break;
+            case 'generate-scenarios':
+                this.sendJson(res, 200, buildScenariosResponse(body as GenerateScenariosRequest));
+                break;
+            case 'analyze':
+                this.sendJson(res, 200, buildAnalyzeResponse(body as AnalyzeRequest));
+                break;
+            case 'fix-test':
+                this.sendJson(res, 200, buildFixTestResponse(body as FixTestRequest));
+                break;
+            case 'models':
+                this.sendJson(res, 200, buildModelListResponse());
+                break;
+        }
+    }
+
+    private buildHealth(): HealthCheckResponse {
+        return {
+            status: 'healthy',
+            version: this.options.version ?? 'mock',
+            features: this.options.features ?? [
+                'test-generation',
+                ServerFeature.SCENARIOS,
+                ServerFeature.AST_ANALYSIS,
+                ServerFeature.SELF_HEALING,
+                ServerFeature.STREAMING,
+                ServerFeature.MODELS
+            ]
+        };
+    }
+
+    /**
+     * Streams the generated test as server-sent events, a few lines at a time
+     */
+    private async sendStream(res: http.ServerResponse, request: GenerateTestRequest): Promise<void> {
+        const response = buildGenerateTestResponse(request);
+        const lines = response.testFile.content.split('\n');
+
+        res.writeHead(200, {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            'Connection': 'keep-alive'
+        });
+
+        for (let i = 0; i < lines.length; i += 3) {
+            const content = lines.slice(i, i + 3).join('\n') + (i + 3 < lines.length ? '\n' : '');
+            res.write(`event: chunk\ndata: ${JSON.stringify({ content })}\n\n`);
+            await delay(50);
+        }
+
+        res.end(`event: done\ndata: ${JSON.stringify(response)}\n\n`);
+    }
+
+    private sendError(res: http.ServerResponse, script: MockResponseScript): void {
+        const code = script.errorCode ?? ApiErrorCode.GENERATION_FAILED;
+        if (code === ApiErrorCode.RATE_LIMIT_EXCEEDED && script.retryAfter) {
+            res.setHeader('Retry-After', String(script.retryAfter));
+        }
+        this.sendJson(res, script.status ?? ERROR_STATUS[code], buildErrorResponse(code, script.message, script.details));
+    }
+
+    private sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(body));
+    }
+
+    private readBody(req: http.IncomingMessage): Promise<unknown> {
+        return new Promise((resolve, reject) => {
+            const chunks: Buffer[] = [];
+            req.on('data', (chunk: Buffer) => chunks.push(chunk));
+            req.on('error', reject);
+            req.on('end', () => {
+                const text = Buffer.concat(chunks).toString('utf8');
+                try {
+                    resolve(text ? JSON.parse(text) : undefined);
+                } catch (error) {
+                    reject(error);
+                }
+            });
+        });
+    }
+
+    private hasSourceFile(body: unknown): boolean {
+        const sourceFile = (body as { sourceFile?: { content?: unknown } } | undefined)?.sourceFile;
+        return typeof sourceFile?.content === 'string';
+    }
+
+    /**
+     * Records the request and checks it against the simulated rate limit
+     */
+    private isRateLimited(): boolean {
+        const rateLimit = this.options.rateLimit;
+        if (!rateLimit) {
+            return false;
+        }
+
+        const now = Date.now();
+        this.requestTimes = this.requestTimes.filter(time => now - time < rateLimit.windowMs);
+        if (this.requestTimes.length >= rateLimit.maxRequests) {
+            return true;
+        }
+        this.requestTimes.push(now);
+        return false;
+    }
+}
+
+function delay(ms: number): Promise<void> {
+    return ms > 0 ? new Promise(resolve => setTimeout(resolve, ms)) : Promise.resolve();
+}
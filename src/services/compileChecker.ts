@@ -0,0 +1,326 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ApiClient } from '../api/client';
+import { GenerationOptions, ServerFeature } from '../api/types';
+import { getUserFriendlyErrorMessage } from '../api/errors';
+import { SettingsManager } from '../config/settings';
+import { BuildTool, TestRunner } from './testRunner';
+import { FileManager } from './fileManager';
+import { PathResolver } from './pathResolver';
+import { GenerationJournal } from './generationJournal';
+import { UsageTracker } from './usageTracker';
+import { DiagnosticReporter } from './diagnosticReport';
+import { ModelManager } from './modelManager';
+import { toAbortSignal } from '../commands/generateTest';
+
+/**
+ * A compilation error reported by javac through Maven or Gradle
+ */
+export interface CompilerError {
+    file: string;
+    // 1-based
+    line: number;
+    // 1-based, missing when the build tool does not report it
+    column?: number;
+    message: string;
+}
+
+/**
+ * A test file that was just written, with what it was generated from
+ */
+export interface GeneratedTest {
+    sourceUri: vscode.Uri;
+    testUri: vscode.Uri;
+    options?: GenerationOptions;
+}
+
+// Detail lines javac prints below an error, e.g. "  symbol:   class Foo"
+const DETAIL_PATTERN = /^\s+(symbol|location|required|found|reason)\b/;
+
+/**
+ * Parses the javac errors out of Maven or Gradle output. Maven repeats
+ * every error in its failure summary, so duplicates are dropped.
+ */
+export function parseCompilerErrors(output: string, buildTool: BuildTool): CompilerError[] {
+    const errors = new Map<string, CompilerError>();
+    let current: CompilerError | undefined;
+
+    for (const rawLine of output.split(/\r?\n/)) {
+        const line = buildTool === 'maven' ? rawLine.replace(/^\[ERROR\] ?/, '') : rawLine;
+
+        // Maven: /path/UserServiceTest.java:[12,8] cannot find symbol
+        // Gradle: /path/UserServiceTest.java:12: error: cannot find symbol
+        const match = buildTool === 'maven'
+            ? rawLine.match(/^\[ERROR\] (.+\.java):\[(\d+)(?:,(\d+))?\] (.*)$/)
+            : line.match(/^(.+\.java):(\d+): error: (.*)$/);
+
+        if (match) {
+            current = buildTool === 'maven'
+                ? { file: match[1], line: Number(match[2]), column: match[3] ? Number(match[3]) : undefined, message: match[4] }
+                : { file: match[1], line: Number(match[2]), message: match[3] };
+            const key = `${current.file}:${current.line}:${current.column}:${current.message}`;
+            if (errors.has(key)) {
+                // The details follow again, keep the first ones
+                current = undefined;
+            } else {
+                errors.set(key, current);
+            }
+        } else if (current && DETAIL_PATTERN.test(line)) {
+            current.message += `\n${line.trim()}`;
+        } else if (current && buildTool === 'gradle' && current.column === undefined && /^\s*\^\s*$/.test(line)) {
+            // javac echoes the source line and marks the column with a caret
+            current.column = line.indexOf('^') + 1;
+        } else if (current && !(buildTool === 'gradle' && current.column === undefined)) {
+            current = undefined;
+        }
+    }
+
+    return [...errors.values()];
+}
+
+/**
+ * Compiles the test sources after tests were generated, shows the compiler
+ * errors as diagnostics and offers to have the server correct the tests
+ */
+export class CompileChecker {
+    // Maximum size of the compiler errors sent to the server
+    private static readonly MAX_FAILURE_OUTPUT = 20000;
+
+    private diagnostics = vscode.languages.createDiagnosticCollection('javaTestGenerator.compile');
+    private outputChannel = vscode.window.createOutputChannel('Test-AutoEvermation: Compile Check');
+    private testRunner = new TestRunner();
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(
+        private readonly apiClient: ApiClient,
+        private readonly settings: SettingsManager,
+        private readonly journal: GenerationJournal,
+        private readonly usageTracker: UsageTracker,
+        private readonly reporter: DiagnosticReporter,
+        private readonly modelManager: ModelManager
+    ) {
+        this.disposables.push(
+            // Positions are stale once the file is edited
+            vscode.workspace.onDidChangeTextDocument((e) => {
+                if (e.contentChanges.length > 0 && this.diagnostics.has(e.document.uri)) {
+                    this.diagnostics.delete(e.document.uri);
+                }
+            })
+        );
+    }
+
+    /**
+     * Compiles the test sources if enabled in the settings. Returns
+     * without waiting for the build.
+     * @param iteration number of corrections already made for these tests
+     */
+    public checkAfterSave(tests: GeneratedTest[], iteration = 0): void {
+        if (!this.settings.shouldCompileCheckAfterSave() || tests.length === 0) {
+            return;
+        }
+
+        this.check(tests, iteration).catch((error) => {
+            this.reporter.showError(`Compile check failed: ${getUserFriendlyErrorMessage(error)}`, error);
+        });
+    }
+
+    private async check(tests: GeneratedTest[], iteration: number): Promise<void> {
+        const workspaceFolder = vscode.workspace.getWorkspaceFolder(tests[0].testUri);
+        if (!workspaceFolder) {
+            return;
+        }
+
+        const buildTool = await this.testRunner.detectBuildTool(workspaceFolder.uri);
+        if (!buildTool) {
+            this.outputChannel.appendLine(`No Maven or Gradle build file in ${workspaceFolder.name}, skipping the compile check`);
+            return;
+        }
+
+        const result = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Window, title: 'Compiling test sources...' },
+            () => this.testRunner.compileTests(workspaceFolder)
+        );
+
+        this.outputChannel.appendLine(`=== ${new Date().toLocaleString()}: ${workspaceFolder.name} (${result.buildTool}) ===`);
+        this.outputChannel.appendLine(result.output);
+
+        const errors = parseCompilerErrors(result.output, result.buildTool);
+        this.showDiagnostics(errors);
+
+        if (result.success) {
+            vscode.window.setStatusBarMessage('$(check) Generated tests compile', 5000);
+            return;
+        }
+
+        const failing = tests
+            .map(test => ({ test, errors: errors.filter(e => vscode.Uri.file(e.file).fsPath === test.testUri.fsPath) }))
+            .filter(({ errors }) => errors.length > 0);
+
+        if (failing.length === 0) {
+            const action = await vscode.window.showWarningMessage(
+                errors.length > 0
+                    ? `Test sources do not compile: ${errors.length} error(s) in other files`
+                    : 'Test sources do not compile',
+                'Show Output'
+            );
+            if (action === 'Show Output') {
+                this.outputChannel.show(true);
+            }
+            return;
+        }
+
+        const count = failing.reduce((sum, f) => sum + f.errors.length, 0);
+        const canFix = this.apiClient.capabilities.has(ServerFeature.SELF_HEALING) &&
+            iteration < this.settings.getSelfHealingMaxIterations();
+        const action = await vscode.window.showWarningMessage(
+            failing.length === 1
+                ? `${count} compilation error(s) in ${path.basename(failing[0].test.testUri.fsPath)}`
+                : `${count} compilation error(s) in ${failing.length} generated tests`,
+            ...(canFix ? ['Fix with Server'] : []),
+            'Show Problems',
+            'Show Output'
+        );
+
+        if (action === 'Fix with Server') {
+            const fixed = await this.fix(failing, iteration + 1);
+            this.checkAfterSave(fixed, iteration + 1);
+        } else if (action === 'Show Problems') {
+            await vscode.commands.executeCommand('workbench.actions.view.problems');
+        } else if (action === 'Show Output') {
+            this.outputChannel.show(true);
+        }
+    }
+
+    /**
+     * Sends each test with its compiler errors to the server and saves the
+     * corrected files as one undoable generation
+     * @returns the tests that were corrected
+     */
+    private async fix(
+        failing: Array<{ test: GeneratedTest; errors: CompilerError[] }>,
+        iteration: number
+    ): Promise<GeneratedTest[]> {
+        const fileManager = new FileManager();
+        const pathResolver = new PathResolver();
+        const transaction = this.journal.begin(
+            failing.length === 1
+                ? `Fix compilation errors in ${path.basename(failing[0].test.testUri.fsPath)}`
+                : `Fix compilation errors in ${failing.length} tests`
+        );
+        const fixed: GeneratedTest[] = [];
+
+        try {
+            await vscode.window.withProgress(
+                {
+                    location: vscode.ProgressLocation.Notification,
+                    title: 'Fixing compilation errors',
+                    cancellable: true
+                },
+                async (progress, token) => {
+                    const signal = toAbortSignal(token);
+
+                    for (const { test, errors } of failing) {
+                        if (token.isCancellationRequested) {
+                            break;
+                        }
+                        const testFileName = path.basename(test.testUri.fsPath);
+                        progress.report({ message: testFileName, increment: 100 / failing.length });
+
+                        try {
+                            const sourceContent = await fileManager.readFile(test.sourceUri);
+                            const packageName = pathResolver.extractPackageFromContent(sourceContent);
+                            const response = await this.apiClient.fixTest({
+                                sourceFile: {
+                                    fileName: path.basename(test.sourceUri.fsPath),
+                                    packageName,
+                                    content: sourceContent
+                                },
+                                testFile: {
+                                    fileName: testFileName,
+                                    packageName,
+                                    content: await fileManager.readFile(test.testUri)
+                                },
+                                failureOutput: this.formatErrors(errors).slice(-CompileChecker.MAX_FAILURE_OUTPUT),
+                                options: test.options || await this.getGenerationOptions(),
+                                iteration
+                            }, signal);
+
+                            await this.usageTracker.record(response.metadata, test.sourceUri, 'fix');
+
+                            await transaction.snapshot(test.testUri);
+                            const saveResult = await fileManager.saveTestFile(test.testUri, response.testFile.content);
+                            if (!saveResult.success) {
+                                throw new Error(`Failed to save test file: ${saveResult.error}`);
+                            }
+                            this.diagnostics.delete(test.testUri);
+                            fixed.push(test);
+                        } catch (error) {
+                            if (token.isCancellationRequested) {
+                                break;
+                            }
+                            this.reporter.showError(
+                                `Fixing ${testFileName} failed: ${getUserFriendlyErrorMessage(error)}`,
+                                error
+                            );
+                        }
+                    }
+                }
+            );
+        } finally {
+            await transaction.commit();
+        }
+
+        if (fixed.length > 0) {
+            vscode.window.showInformationMessage(
+                `Saved the corrected ${fixed.length === 1 ? path.basename(fixed[0].testUri.fsPath) : `${fixed.length} tests`}, compiling again...`
+            );
+        }
+        return fixed;
+    }
+
+    private showDiagnostics(errors: CompilerError[]): void {
+        this.diagnostics.clear();
+
+        const byFile = new Map<string, vscode.Diagnostic[]>();
+        for (const error of errors) {
+            const line = Math.max(error.line - 1, 0);
+            // Empty ranges are widened to the word at the position
+            const range = error.column !== undefined
+                ? new vscode.Range(line, error.column - 1, line, error.column - 1)
+                : new vscode.Range(line, 0, line, Number.MAX_SAFE_INTEGER);
+            const diagnostic = new vscode.Diagnostic(range, error.message, vscode.DiagnosticSeverity.Error);
+            diagnostic.source = 'javac';
+
+            const uri = vscode.Uri.file(error.file).toString();
+            byFile.set(uri, [...(byFile.get(uri) || []), diagnostic]);
+        }
+
+        for (const [uri, diagnostics] of byFile) {
+            this.diagnostics.set(vscode.Uri.parse(uri), diagnostics);
+        }
+    }
+
+    private formatErrors(errors: CompilerError[]): string {
+        return errors
+            .map(e => `${path.basename(e.file)}:${e.line}${e.column !== undefined ? `:${e.column}` : ''}: error: ${e.message}`)
+            .join('\n');
+    }
+
+    private async getGenerationOptions(): Promise<GenerationOptions> {
+        const model = await this.modelManager.getModelForRequest();
+        return {
+            testFramework: this.settings.getTestFramework(),
+            mockingFramework: this.settings.getMockingFramework(),
+            coverageTarget: this.settings.getCoverageTarget(),
+            includeEdgeCases: this.settings.includeEdgeCases(),
+            ...(model && { model })
+        };
+    }
+
+    public dispose(): void {
+        this.diagnostics.dispose();
+        this.outputChannel.dispose();
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+    }
+}
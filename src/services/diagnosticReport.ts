@@ -0,0 +1,147 @@
+import * as vscode from 'vscode';
+import { ApiClient } from '../api/client';
+import { ApiError } from '../api/errors';
+import { SettingsManager } from '../config/settings';
+
+/**
+ * Sensitive data the user chose to include in a report
+ */
+export interface ReportOptions {
+    includeSource: boolean;
+    includeApiKey: boolean;
+}
+
+// Request fields that hold source code or output derived from it
+const SOURCE_FIELDS = ['content', 'failureOutput', 'scenarios'];
+
+/**
+ * Builds diagnostic reports that users can hand to the server team and
+ * adds a "Copy Diagnostic Report" action to error notifications
+ */
+export class DiagnosticReporter {
+    private static readonly COPY_ACTION = 'Copy Diagnostic Report';
+
+    private extensionVersion: string;
+    private apiClient: ApiClient;
+    private settings: SettingsManager;
+
+    constructor(extensionVersion: string, apiClient: ApiClient, settings: SettingsManager) {
+        this.extensionVersion = extensionVersion;
+        this.apiClient = apiClient;
+        this.settings = settings;
+    }
+
+    /**
+     * Shows an error notification with the given actions plus "Copy Diagnostic Report"
+     * @returns the chosen action, undefined if dismissed or the report was copied
+     */
+    public async showError(message: string, error: unknown, ...items: string[]): Promise<string | undefined> {
+        const action = await vscode.window.showErrorMessage(message, ...items, DiagnosticReporter.COPY_ACTION);
+        if (action === DiagnosticReporter.COPY_ACTION) {
+            await this.copyReport(error);
+            return undefined;
+        }
+        return action;
+    }
+
+    /**
+     * Asks which sensitive data to include and copies the report to the clipboard
+     */
+    public async copyReport(error: unknown): Promise<void> {
+        const options: ReportOptions = { includeSource: false, includeApiKey: false };
+
+        const choices: Array<vscode.QuickPickItem & { option: keyof ReportOptions }> = [];
+        if (error instanceof ApiError && error.diagnostics?.request !== undefined) {
+            choices.push({
+                label: 'Include source code',
+                description: 'Source files, scenarios and build output sent with the request',
+                option: 'includeSource'
+            });
+        }
+        if (this.settings.getAuthMode() === 'apiKey' && this.settings.getApiKey()) {
+            choices.push({ label: 'Include API key', option: 'includeApiKey' });
+        }
+
+        if (choices.length > 0) {
+            const picked = await vscode.window.showQuickPick(choices, {
+                canPickMany: true,
+                title: 'Copy Diagnostic Report',
+                placeHolder: 'Sensitive data is left out unless selected. Press Enter to copy.'
+            });
+            if (!picked) {
+                return;
+            }
+            picked.forEach(choice => {
+                options[choice.option] = true;
+            });
+        }
+
+        await vscode.env.clipboard.writeText(this.buildReport(error, options));
+        vscode.window.showInformationMessage('Diagnostic report copied to the clipboard');
+    }
+
+    public buildReport(error: unknown, options: ReportOptions): string {
+        const diagnostics = error instanceof ApiError ? error.diagnostics : undefined;
+        const capabilities = this.apiClient.capabilities;
+        const apiKey = this.settings.getApiKey();
+
+        const lines = [
+            '## Test-AutoEvermation Diagnostic Report',
+            '',
+            `Time: ${new Date(diagnostics?.timestamp ?? Date.now()).toISOString()}`,
+            `Extension version: ${this.extensionVersion}`,
+            `VS Code version: ${vscode.version}`,
+            `Platform: ${process.platform} (${process.arch})`,
+            `Server URL: ${diagnostics?.serverUrl || this.apiClient.getBaseUrl()}`,
+            `Server version: ${capabilities.getVersion() || 'unknown'}`,
+            `Server features: ${capabilities.isKnown() ? capabilities.getFeatures().join(', ') || 'none' : 'unknown'}`,
+            `Auth mode: ${this.settings.getAuthMode()}`
+        ];
+        if (options.includeApiKey && apiKey) {
+            lines.push(`API key: ${apiKey}`);
+        }
+
+        lines.push('', '### Error', '');
+        lines.push(`Type: ${error instanceof Error ? error.name : typeof error}`);
+        if (error instanceof ApiError) {
+            lines.push(`Code: ${error.code}`);
+        }
+        lines.push(`Message: ${error instanceof Error ? error.message : String(error)}`);
+        if (diagnostics) {
+            lines.push(`Request ID: ${diagnostics.requestId || 'none'}`);
+            lines.push(`Endpoint: ${diagnostics.endpoint}`);
+            lines.push(`HTTP status: ${diagnostics.httpStatus ?? 'none'}`);
+        }
+        if (error instanceof ApiError && error.details) {
+            lines.push(`Details: ${JSON.stringify(error.details)}`);
+        }
+
+        if (diagnostics?.request !== undefined) {
+            lines.push('', '### Request', '', '```json');
+            lines.push(JSON.stringify(summarizeRequest(diagnostics.request, options.includeSource), null, 2));
+            lines.push('```');
+        }
+
+        const report = lines.join('\n');
+        // The key must not leak through messages or details that echo it
+        return !options.includeApiKey && apiKey ? report.split(apiKey).join('***') : report;
+    }
+}
+
+/**
+ * Copies a request body, replacing source code with its size unless included
+ */
+function summarizeRequest(value: unknown, includeSource: boolean, key?: string): unknown {
+    if (typeof value === 'string' && key && SOURCE_FIELDS.includes(key) && !includeSource) {
+        return `[redacted: ${value.length} characters, ${value.split('\n').length} lines]`;
+    }
+    if (Array.isArray(value)) {
+        return value.map(item => summarizeRequest(item, includeSource));
+    }
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(
+            Object.entries(value).map(([k, v]) => [k, summarizeRequest(v, includeSource, k)])
+        );
+    }
+    return value;
+}
@@ -118,6 +118,24 @@ export class FileManager {
         return vscode.window.showTextDocument(document, viewColumn);
     }
 
+    /**
+     * Opens content as an unsaved editor for the given file without writing
+     * anything. A file that does not exist yet is opened as an untitled
+     * document that saves to that path.
+     */
+    public async openUnsavedFile(uri: vscode.Uri, content: string, viewColumn?: vscode.ViewColumn): Promise<vscode.TextEditor> {
+        const target = (await this.fileExists(uri)) ? uri : uri.with({ scheme: 'untitled' });
+        const document = await vscode.workspace.openTextDocument(target);
+
+        const edit = new vscode.WorkspaceEdit();
+        edit.replace(document.uri, document.validateRange(new vscode.Range(0, 0, document.lineCount, 0)), content);
+        if (!(await vscode.workspace.applyEdit(edit))) {
+            throw new Error(`Failed to open ${path.basename(uri.fsPath)} in an editor`);
+        }
+
+        return vscode.window.showTextDocument(document, viewColumn);
+    }
+
     /**
      * Finds files that might be dependencies based on import statements
      */
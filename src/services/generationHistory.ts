@@ -0,0 +1,64 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { AnalysisResult, GenerationOptions } from '../api/types';
+
+/**
+ * A past test generation with the inputs it was made from
+ */
+export interface GenerationRecord {
+    id: string;
+    timestamp: number;
+    sourceUri: string;
+    testUri: string;
+    // Missing for jobs submitted by older versions
+    options?: GenerationOptions;
+    scenarios?: string;
+    selectedMethods?: string[];
+    modelUsed?: string;
+    analysis?: AnalysisResult;
+    // Journal entry of the written files, for restoring the previous content
+    journalEntryId?: string;
+}
+
+/**
+ * Keeps the history of test generations in the workspace state
+ */
+export class GenerationHistory {
+    private static readonly STATE_KEY = 'javaTestGenerator.generationHistory';
+    private static readonly MAX_RECORDS = 100;
+
+    private workspaceState: vscode.Memento;
+    private onDidChangeEmitter = new vscode.EventEmitter<void>();
+
+    public readonly onDidChange = this.onDidChangeEmitter.event;
+
+    constructor(workspaceState: vscode.Memento) {
+        this.workspaceState = workspaceState;
+    }
+
+    /**
+     * Gets the records, newest first
+     */
+    public getRecords(): GenerationRecord[] {
+        return this.workspaceState.get<GenerationRecord[]>(GenerationHistory.STATE_KEY, []);
+    }
+
+    public async add(record: Omit<GenerationRecord, 'id' | 'timestamp'>): Promise<void> {
+        const records = [
+            { id: crypto.randomUUID(), timestamp: Date.now(), ...record },
+            ...this.getRecords()
+        ].slice(0, GenerationHistory.MAX_RECORDS);
+
+        await this.workspaceState.update(GenerationHistory.STATE_KEY, records);
+        this.onDidChangeEmitter.fire();
+    }
+
+    public async clear(): Promise<void> {
+        await this.workspaceState.update(GenerationHistory.STATE_KEY, undefined);
+        this.onDidChangeEmitter.fire();
+    }
+
+    public dispose(): void {
+        this.onDidChangeEmitter.dispose();
+    }
+}
@@ -0,0 +1,232 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+
+/**
+ * A file written by a generation
+ */
+export interface JournalFile {
+    uri: string;
+    // Base64 of the bytes before the generation, undefined if the file was created
+    previousContent?: string;
+    // SHA-256 of the bytes written, to detect later edits
+    writtenHash: string;
+}
+
+/**
+ * Everything a single generation (or batch run) changed on disk
+ */
+export interface JournalEntry {
+    id: string;
+    label: string;
+    timestamp: number;
+    files: JournalFile[];
+    // Backup files created along the way
+    backups: string[];
+}
+
+/**
+ * Collects the changes of one generation. Files must be snapshotted
+ * before they are written; the entry is stored on commit.
+ */
+export class GenerationTransaction {
+    // Id of the journal entry stored on commit
+    public readonly id = crypto.randomUUID();
+
+    private snapshots = new Map<string, Promise<Uint8Array | undefined>>();
+    private backups: vscode.Uri[] = [];
+
+    constructor(
+        private readonly journal: GenerationJournal,
+        private readonly label: string
+    ) {}
+
+    /**
+     * Remembers the current content of a file that is about to be written.
+     * Only the first snapshot of a file counts.
+     */
+    public async snapshot(uri: vscode.Uri): Promise<void> {
+        const key = uri.toString();
+        if (!this.snapshots.has(key)) {
+            this.snapshots.set(key, Promise.resolve(vscode.workspace.fs.readFile(uri)).catch(
+                // The file does not exist yet
+                () => undefined
+            ));
+        }
+        await this.snapshots.get(key);
+    }
+
+    public addBackup(uri: vscode.Uri): void {
+        this.backups.push(uri);
+    }
+
+    /**
+     * Stores the journal entry for the files written so far
+     */
+    public async commit(): Promise<void> {
+        const files: JournalFile[] = [];
+        for (const [key, snapshot] of this.snapshots) {
+            const previous = await snapshot;
+            let written: Uint8Array;
+            try {
+                written = await vscode.workspace.fs.readFile(vscode.Uri.parse(key));
+            } catch {
+                // Never written (failed or cancelled)
+                continue;
+            }
+            if (previous && hashContent(previous) === hashContent(written)) {
+                continue;
+            }
+            files.push({
+                uri: key,
+                previousContent: previous ? Buffer.from(previous).toString('base64') : undefined,
+                writtenHash: hashContent(written)
+            });
+        }
+
+        if (files.length === 0 && this.backups.length === 0) {
+            return;
+        }
+        await this.journal.add({
+            id: this.id,
+            label: this.label,
+            timestamp: Date.now(),
+            files,
+            backups: this.backups.map(uri => uri.toString())
+        });
+    }
+}
+
+/**
+ * Persists what each test generation changed in the workspace state, so
+ * that the last generation can be undone after editors or the window
+ * were closed
+ */
+export class GenerationJournal {
+    private static readonly STATE_KEY = 'javaTestGenerator.generationJournal';
+    // Generations that can be undone one after the other
+    private static readonly MAX_ENTRIES = 10;
+
+    private workspaceState: vscode.Memento;
+    private onDidChangeEmitter = new vscode.EventEmitter<void>();
+
+    public readonly onDidChange = this.onDidChangeEmitter.event;
+
+    constructor(workspaceState: vscode.Memento) {
+        this.workspaceState = workspaceState;
+    }
+
+    /**
+     * Starts recording a generation
+     */
+    public begin(label: string): GenerationTransaction {
+        return new GenerationTransaction(this, label);
+    }
+
+    /**
+     * Gets the journal entries, oldest first
+     */
+    public getEntries(): JournalEntry[] {
+        return this.workspaceState.get<JournalEntry[]>(GenerationJournal.STATE_KEY, []);
+    }
+
+    public getEntry(id: string): JournalEntry | undefined {
+        return this.getEntries().find(e => e.id === id);
+    }
+
+    public getLastEntry(): JournalEntry | undefined {
+        const entries = this.getEntries();
+        return entries[entries.length - 1];
+    }
+
+    public async add(entry: JournalEntry): Promise<void> {
+        const entries = [...this.getEntries(), entry].slice(-GenerationJournal.MAX_ENTRIES);
+        await this.update(entries);
+    }
+
+    public async remove(id: string): Promise<void> {
+        await this.update(this.getEntries().filter(e => e.id !== id));
+    }
+
+    /**
+     * Files of an entry that were changed after the generation wrote them
+     */
+    public async getModifiedFiles(entry: JournalEntry): Promise<vscode.Uri[]> {
+        const modified: vscode.Uri[] = [];
+        for (const file of entry.files) {
+            const uri = vscode.Uri.parse(file.uri);
+            let current: Uint8Array | undefined;
+            try {
+                current = await vscode.workspace.fs.readFile(uri);
+            } catch {
+                // Deleted since
+            }
+            if (!current || hashContent(current) !== file.writtenHash) {
+                modified.push(uri);
+            }
+        }
+        return modified;
+    }
+
+    /**
+     * Restores every file of an entry to its previous bytes, deletes the
+     * files it created and the backups it made, and forgets the entry
+     */
+    public async undo(entry: JournalEntry): Promise<void> {
+        for (const file of entry.files) {
+            await restoreFile(file);
+        }
+        for (const backup of entry.backups) {
+            await deleteFile(vscode.Uri.parse(backup));
+        }
+        await this.remove(entry.id);
+    }
+
+    /**
+     * Restores a single file of an entry and removes it from the entry.
+     * The entry is undone completely once its last file is restored.
+     */
+    public async undoFile(entry: JournalEntry, uri: vscode.Uri): Promise<void> {
+        const file = entry.files.find(f => f.uri === uri.toString());
+        if (!file) {
+            return;
+        }
+
+        const remaining = entry.files.filter(f => f !== file);
+        if (remaining.length === 0) {
+            await this.undo(entry);
+            return;
+        }
+
+        await restoreFile(file);
+        await this.update(this.getEntries().map(e => e.id === entry.id ? { ...e, files: remaining } : e));
+    }
+
+    private async update(entries: JournalEntry[]): Promise<void> {
+        await this.workspaceState.update(GenerationJournal.STATE_KEY, entries);
+        this.onDidChangeEmitter.fire();
+    }
+
+    public dispose(): void {
+        this.onDidChangeEmitter.dispose();
+    }
+}
+
+/**
+ * Writes back the previous bytes, or deletes the file if it was created
+ */
+async function restoreFile(file: JournalFile): Promise<void> {
+    const uri = vscode.Uri.parse(file.uri);
+    if (file.previousContent !== undefined) {
+        await vscode.workspace.fs.writeFile(uri, Buffer.from(file.previousContent, 'base64'));
+    } else {
+        await deleteFile(uri);
+    }
+}
+
+async function deleteFile(uri: vscode.Uri): Promise<void> {
+    await vscode.workspace.fs.delete(uri, { useTrash: false }).then(undefined, () => undefined);
+}
+
+function hashContent(content: Uint8Array): string {
+    return crypto.createHash('sha256').update(content).digest('hex');
+}
@@ -0,0 +1,223 @@
+import * as vscode from 'vscode';
+import { JavaMethod } from './javaParser';
+
+/*
+ * The subset of the built-in git extension API (extensions/git/src/api/git.d.ts)
+ * used to find changed files
+ */
+interface GitExtension {
+    readonly enabled: boolean;
+    getAPI(version: 1): GitAPI;
+}
+
+interface GitAPI {
+    readonly state: 'uninitialized' | 'initialized';
+    readonly onDidChangeState: vscode.Event<'uninitialized' | 'initialized'>;
+    readonly repositories: Repository[];
+}
+
+interface Repository {
+    readonly rootUri: vscode.Uri;
+    readonly state: {
+        readonly workingTreeChanges: Change[];
+        readonly untrackedChanges?: Change[];
+    };
+    getMergeBase(ref1: string, ref2: string): Promise<string | undefined>;
+    diffWith(ref: string): Promise<Change[]>;
+    diffWith(ref: string, path: string): Promise<string>;
+}
+
+interface Change {
+    readonly uri: vscode.Uri;
+    readonly status: number;
+}
+
+// Values of the git extension's Status enum
+enum GitStatus {
+    INDEX_ADDED = 1,
+    INDEX_DELETED = 2,
+    INDEX_RENAMED = 3,
+    INDEX_COPIED = 4,
+    DELETED = 6,
+    UNTRACKED = 7,
+    INTENT_TO_ADD = 9
+}
+
+const NEW_FILE_STATUSES = [
+    GitStatus.INDEX_ADDED,
+    GitStatus.INDEX_RENAMED,
+    GitStatus.INDEX_COPIED,
+    GitStatus.UNTRACKED,
+    GitStatus.INTENT_TO_ADD
+];
+
+// How long to wait for the git extension to open the repositories (ms)
+const GIT_INIT_TIMEOUT = 30000;
+
+/**
+ * Lines of the current file touched by a diff
+ */
+export interface DiffLines {
+    // Added or modified lines
+    changed: number[];
+    // Lines after which lines were removed (0 for the start of the file)
+    deletedAfter: number[];
+}
+
+/**
+ * A main source file changed since the merge-base
+ */
+export interface ChangedJavaFile {
+    uri: vscode.Uri;
+    // undefined for files that did not exist at the merge-base
+    lines?: DiffLines;
+}
+
+/**
+ * Finds the Java sources under src/main/java that changed since the
+ * merge-base of HEAD and the base branch, including uncommitted and
+ * untracked files
+ */
+export async function findChangedJavaFiles(baseBranch: string): Promise<ChangedJavaFile[]> {
+    const api = await getGitApi();
+    if (api.repositories.length === 0) {
+        throw new Error('No git repository found in the workspace');
+    }
+
+    const files: ChangedJavaFile[] = [];
+    const withoutBase: Repository[] = [];
+    for (const repository of api.repositories) {
+        const mergeBase = await findMergeBase(repository, baseBranch);
+        if (!mergeBase) {
+            withoutBase.push(repository);
+            continue;
+        }
+
+        const changes = [
+            ...await repository.diffWith(mergeBase),
+            ...repository.state.untrackedChanges ?? [],
+            ...repository.state.workingTreeChanges.filter(c => c.status === GitStatus.UNTRACKED)
+        ];
+
+        const seen = new Set<string>();
+        for (const change of changes) {
+            const key = change.uri.toString();
+            if (seen.has(key) || !isMainJavaSource(change.uri) ||
+                change.status === GitStatus.DELETED || change.status === GitStatus.INDEX_DELETED) {
+                continue;
+            }
+            seen.add(key);
+
+            if (NEW_FILE_STATUSES.includes(change.status)) {
+                files.push({ uri: change.uri });
+            } else {
+                const diff = await repository.diffWith(mergeBase, change.uri.fsPath);
+                files.push({ uri: change.uri, lines: parseDiffLines(diff) });
+            }
+        }
+    }
+
+    if (withoutBase.length === api.repositories.length) {
+        throw new Error(`No common ancestor with branch "${baseBranch}" found in ${withoutBase[0].rootUri.fsPath}`);
+    }
+
+    return files.sort((a, b) => a.uri.path.localeCompare(b.uri.path));
+}
+
+/**
+ * Collects the lines of the new file version touched by a unified diff
+ */
+export function parseDiffLines(diff: string): DiffLines {
+    const lines: DiffLines = { changed: [], deletedAfter: [] };
+    let newLine = 0;
+    let inHunk = false;
+
+    for (const line of diff.split('\n')) {
+        const hunk = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
+        if (hunk) {
+            newLine = parseInt(hunk[1], 10);
+            inHunk = true;
+            continue;
+        }
+        if (!inHunk) {
+            continue;
+        }
+
+        if (line.startsWith('+')) {
+            lines.changed.push(newLine++);
+        } else if (line.startsWith('-')) {
+            lines.deletedAfter.push(newLine - 1);
+        } else if (line.startsWith(' ')) {
+            newLine++;
+        } else if (!line.startsWith('\\')) {
+            // Header of the next file
+            inHunk = false;
+        }
+    }
+
+    return lines;
+}
+
+/**
+ * Methods whose line range contains a changed line or a removal
+ */
+export function findChangedMethods(methods: JavaMethod[], lines: DiffLines): JavaMethod[] {
+    return methods.filter(method =>
+        lines.changed.some(line => line >= method.startLine && line <= method.endLine) ||
+        lines.deletedAfter.some(line => line >= method.startLine && line < method.endLine)
+    );
+}
+
+async function getGitApi(): Promise<GitAPI> {
+    const extension = vscode.extensions.getExtension<GitExtension>('vscode.git');
+    if (!extension) {
+        throw new Error('The built-in Git extension is not available');
+    }
+
+    const git = extension.isActive ? extension.exports : await extension.activate();
+    if (!git.enabled) {
+        throw new Error('Git is disabled (git.enabled)');
+    }
+
+    const api = git.getAPI(1);
+    if (api.state === 'uninitialized') {
+        // Repositories are opened once the extension has finished scanning
+        await new Promise<void>((resolve, reject) => {
+            const timer = setTimeout(() => {
+                listener.dispose();
+                reject(new Error('The Git extension did not finish opening the repositories in time'));
+            }, GIT_INIT_TIMEOUT);
+            const listener = api.onDidChangeState((state) => {
+                if (state === 'initialized') {
+                    clearTimeout(timer);
+                    listener.dispose();
+                    resolve();
+                }
+            });
+        });
+    }
+    return api;
+}
+
+/**
+ * Merge-base with the local base branch, falling back to the remote one
+ */
+async function findMergeBase(repository: Repository, baseBranch: string): Promise<string | undefined> {
+    for (const ref of [baseBranch, `origin/${baseBranch}`]) {
+        try {
+            const mergeBase = await repository.getMergeBase('HEAD', ref);
+            if (mergeBase) {
+                return mergeBase;
+            }
+        } catch {
+            // Older git extensions throw for unknown refs
+        }
+    }
+    return undefined;
+}
+
+function isMainJavaSource(uri: vscode.Uri): boolean {
+    return uri.path.endsWith('.java') &&
+        uri.path.includes('/src/main/java/') &&
+        vscode.workspace.getWorkspaceFolder(uri) !== undefined;
+}
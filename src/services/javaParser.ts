@@ -155,6 +155,73 @@ export function extractClassInfo(sourceCode: string): JavaClass | null {
     };
 }
 
+/**
+ * Kind of a Java type declaration
+ */
+export type JavaTypeKind = 'class' | 'interface' | 'enum' | 'record' | 'annotation';
+
+/**
+ * Detects the kind of the first type declared in a source file
+ */
+export function getTypeKind(sourceCode: string): JavaTypeKind | null {
+    const typeMatch = sourceCode.match(
+        /^\s*(?:(?:public|protected|private|abstract|static|final|sealed|non-sealed|strictfp)\s+)*(class|interface|enum|record|@interface)\s+\w+/m
+    );
+    if (!typeMatch) {
+        return null;
+    }
+    return typeMatch[1] === '@interface' ? 'annotation' : typeMatch[1] as JavaTypeKind;
+}
+
+/**
+ * Checks whether a source file declares a record that only carries data,
+ * i.e. has no methods and no compact constructor
+ */
+export function isDataOnlyRecord(sourceCode: string): boolean {
+    if (getTypeKind(sourceCode) !== 'record') {
+        return false;
+    }
+
+    const recordMatch = sourceCode.match(/^\s*(?:(?:public|protected|private|static|final|sealed|non-sealed|strictfp)\s+)*record\s+(\w+)/m);
+    if (!recordMatch || recordMatch.index === undefined) {
+        return false;
+    }
+
+    // The body starts after the component list
+    const bodyStart = sourceCode.indexOf('{', recordMatch.index + recordMatch[0].length);
+    if (bodyStart < 0) {
+        return true;
+    }
+    const body = sourceCode.slice(bodyStart + 1);
+
+    const hasMethod = /\)\s*(?:throws\s+[\w\s,.]+)?\{/.test(body);
+    const hasCompactConstructor = new RegExp(`\\b${recordMatch[1]}\\s*\\{`).test(body);
+    return !hasMethod && !hasCompactConstructor;
+}
+
+const SPRING_BEAN_ANNOTATIONS = ['Service', 'Component', 'Controller', 'RestController'];
+
+/**
+ * Checks whether the top-level class is a Spring bean, i.e. annotated with
+ * @Service, @Component, @Controller or @RestController
+ */
+export function isSpringBean(sourceCode: string): boolean {
+    const classMatch = sourceCode.match(
+        /^\s*(?:@[\w.]+(?:\([^)]*\))?\s+)*(?:(?:public|protected|private|abstract|final)\s+)*class\s+\w+/m
+    );
+    if (!classMatch || classMatch.index === undefined) {
+        return false;
+    }
+
+    // Annotations up to the class declaration, without line comments
+    const header = sourceCode
+        .slice(0, classMatch.index + classMatch[0].length)
+        .replace(/\/\/.*$/gm, '');
+    return SPRING_BEAN_ANNOTATIONS.some(annotation =>
+        new RegExp(`@(?:[\\w.]+\\.)?${annotation}\\b(?!\\.)`).test(header)
+    );
+}
+
 /**
  * Extracts existing test methods from a test file
  */
@@ -184,11 +251,281 @@ export function extractTestMethods(testCode: string): string[] {
     return testMethods;
 }
 
+/**
+ * A test method with the lines it spans
+ */
+export interface JavaTestMethod {
+    name: string;
+    startLine: number;
+    endLine: number;
+    // Lines after the declaration, up to the closing brace
+    body: string;
+}
+
+/**
+ * Extracts the @Test methods of a test file with their bodies
+ */
+export function extractTestMethodBodies(testCode: string): JavaTestMethod[] {
+    const testMethods: JavaTestMethod[] = [];
+    const lines = testCode.split('\n');
+
+    let foundTestAnnotation = false;
+
+    for (let i = 0; i < lines.length; i++) {
+        if (lines[i].trim().startsWith('@Test')) {
+            foundTestAnnotation = true;
+            continue;
+        }
+        if (!foundTestAnnotation) {
+            continue;
+        }
+
+        const methodMatch = lines[i].match(/^\s*(?:public|private|protected)?\s*void\s+(\w+)\s*\(/);
+        if (!methodMatch) {
+            continue;
+        }
+        foundTestAnnotation = false;
+
+        let end = i;
+        let braceCount = 0;
+        let bodyStarted = false;
+        for (; end < lines.length; end++) {
+            const opening = (lines[end].match(/\{/g) || []).length;
+            braceCount += opening - (lines[end].match(/\}/g) || []).length;
+            bodyStarted = bodyStarted || opening > 0;
+            if (bodyStarted && braceCount <= 0) {
+                break;
+            }
+        }
+        end = Math.min(end, lines.length - 1);
+
+        testMethods.push({
+            name: methodMatch[1],
+            startLine: i + 1,
+            endLine: end + 1,
+            body: lines.slice(i + 1, end + 1).join('\n')
+        });
+        i = end;
+    }
+
+    return testMethods;
+}
+
+/**
+ * The tests of a test class and the names it refers to the class under
+ * test by
+ */
+export interface JavaTestClass {
+    testMethods: JavaTestMethod[];
+    // Fields and variables of the class under test's type, and the class
+    // name itself for static calls
+    subjects: string[];
+}
+
+/**
+ * Parses a test class for the class under test with the given name
+ */
+export function parseTestClass(testCode: string, className: string): JavaTestClass {
+    const subjects = new Set<string>([className]);
+    const declarationRegex = new RegExp(
+        `(?<![\\w$])${escapeRegExp(className)}(?:<[^>]*>)?\\s+([\\w$]+)\\s*[;=,)]`,
+        'g'
+    );
+
+    let match;
+    while ((match = declarationRegex.exec(testCode)) !== null) {
+        subjects.add(match[1]);
+    }
+
+    return { testMethods: extractTestMethodBodies(testCode), subjects: [...subjects] };
+}
+
+/**
+ * Finds the tests that target a source method, either by their name (see
+ * isTestForMethods) or by calling it on the class under test
+ * (userService.findById(...), UserService::findById). Calls on other
+ * objects, such as a stubbed repository.save(...), do not count.
+ */
+export function findTestsForMethod(testClass: JavaTestClass, methodName: string): JavaTestMethod[] {
+    const subjects = testClass.subjects.map(escapeRegExp).join('|');
+    const name = escapeRegExp(methodName);
+    const call = new RegExp(`(?<![\\w$])(?:${subjects})\\s*(?:\\.\\s*${name}\\s*\\(|::\\s*${name}(?![\\w$]))`);
+
+    return testClass.testMethods.filter(test =>
+        isTestForMethods(test.name, [methodName]) || call.test(test.body)
+    );
+}
+
+/**
+ * Finds the tests that target any of the given source methods (see
+ * findTestsForMethod)
+ */
+export function findTestsForMethods(testClass: JavaTestClass, targetMethods: string[]): JavaTestMethod[] {
+    const targeted = new Set(
+        targetMethods.flatMap(target => findTestsForMethod(testClass, getMethodNameFromSignature(target)))
+    );
+    return testClass.testMethods.filter(test => targeted.has(test));
+}
+
+/**
+ * Removes the given test methods together with their annotations and comments
+ */
+export function removeTestMethods(testCode: string, testMethodNames: string[]): string {
+    if (testMethodNames.length === 0) {
+        return testCode;
+    }
+
+    const lines = testCode.split('\n');
+    const removed = new Set<number>();
+
+    for (let i = 0; i < lines.length; i++) {
+        const methodMatch = lines[i].match(/^\s*(?:public|private|protected)?\s*void\s+(\w+)\s*\(/);
+        if (!methodMatch || !testMethodNames.includes(methodMatch[1])) {
+            continue;
+        }
+
+        // Annotations and comments above the declaration belong to the method
+        let start = i;
+        while (start > 0 && /^\s*(?:@|\/\/|\/\*|\*)/.test(lines[start - 1])) {
+            start--;
+        }
+        if (!lines.slice(start, i).some(line => line.trim().startsWith('@Test'))) {
+            continue;
+        }
+
+        let end = i;
+        let braceCount = 0;
+        let bodyStarted = false;
+        for (; end < lines.length; end++) {
+            const opening = (lines[end].match(/\{/g) || []).length;
+            braceCount += opening - (lines[end].match(/\}/g) || []).length;
+            bodyStarted = bodyStarted || opening > 0;
+            if (bodyStarted && braceCount <= 0) {
+                break;
+            }
+        }
+
+        // Also drop the blank line that separated the method from the previous member
+        if (start > 0 && lines[start - 1].trim() === '') {
+            start--;
+        }
+        for (let line = start; line <= end; line++) {
+            removed.add(line);
+        }
+        i = end;
+    }
+
+    return lines.filter((_, index) => !removed.has(index)).join('\n');
+}
+
+/**
+ * Extracts the method name from a signature such as
+ * "public User findById(Long id)"
+ */
+export function getMethodNameFromSignature(signature: string): string {
+    const nameMatch = signature.match(/([\w$]+)\s*\(/);
+    return nameMatch ? nameMatch[1] : signature.trim();
+}
+
+/**
+ * Checks whether a test method name targets one of the given source methods.
+ * The method name must be the whole first token of the test name, optionally
+ * prefixed with "test": testFindById, findById, findById_returnsUser.
+ * Selecting find therefore does not match testFindAll or findOrCreate_x.
+ * Camel-case continuations such as findByIdReturnsUser are not recognized,
+ * since they cannot be told apart from a longer method name. Overloads
+ * share a name, so a test for save(User) also counts for save(List).
+ */
+export function isTestForMethods(testMethodName: string, targetMethods: string[]): boolean {
+    const lowerTestName = testMethodName.toLowerCase();
+    return targetMethods.some(target => {
+        const name = escapeRegExp(getMethodNameFromSignature(target).toLowerCase());
+        return new RegExp(`^(?:test_?)?${name}(?:_|$)`).test(lowerTestName);
+    });
+}
+
+/**
+ * Escapes a value for use as a literal in a regular expression
+ */
+export function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Splits a block of class members into individual members
+ * (annotations and comments are kept with the member that follows them)
+ */
+function splitMembers(membersCode: string): string[] {
+    const members: string[] = [];
+    let current: string[] = [];
+    let braceCount = 0;
+    let bodyStarted = false;
+
+    for (const line of membersCode.split('\n')) {
+        if (current.length === 0 && line.trim() === '') {
+            continue;
+        }
+
+        current.push(line);
+
+        const opening = (line.match(/\{/g) || []).length;
+        const closing = (line.match(/\}/g) || []).length;
+        braceCount += opening - closing;
+        if (opening > 0) {
+            bodyStarted = true;
+        }
+
+        if (bodyStarted && braceCount <= 0) {
+            members.push(current.join('\n'));
+            current = [];
+            braceCount = 0;
+            bodyStarted = false;
+        }
+    }
+
+    if (current.some(line => line.trim() !== '')) {
+        members.push(current.join('\n'));
+    }
+
+    return members;
+}
+
+/**
+ * Keeps only the given test methods.
+ * Non-test members (helpers, fixtures) are kept as they are.
+ * Returns the input unchanged when no test method matches, so that
+ * unconventional test names never cause generated tests to be dropped.
+ */
+export function filterTestMethodsByTarget(membersCode: string, targetedTests: string[]): string {
+    if (targetedTests.length === 0) {
+        return membersCode;
+    }
+
+    const members = splitMembers(membersCode);
+    let matched = 0;
+
+    const kept = members.filter(member => {
+        const testNames = extractTestMethods(member);
+        if (testNames.length === 0) {
+            return true;
+        }
+        if (targetedTests.includes(testNames[0])) {
+            matched++;
+            return true;
+        }
+        return false;
+    });
+
+    return matched > 0 ? kept.join('\n\n') : membersCode;
+}
+
 /**
  * Merges new test methods into existing test file
+ * When targetedTests is given, only those test methods are merged
+ * (see findTestsForMethods)
  * Returns the merged content
  */
-export function mergeTestMethods(existingCode: string, newTestMethods: string): string {
+export function mergeTestMethods(existingCode: string, newTestMethods: string, targetedTests?: string[]): string {
     // Find the last closing brace of the class
     const lines = existingCode.split('\n');
     let lastBraceIndex = -1;
@@ -219,7 +556,11 @@ export function mergeTestMethods(existingCode: string, newTestMethods: string):
 
     // Extract new test methods (just the method bodies, not the class wrapper)
     const newMethodsMatch = newTestMethods.match(/(@Test[\s\S]*?)(?=\s*}\s*$)/);
-    const methodsToInsert = newMethodsMatch ? newMethodsMatch[1] : newTestMethods;
+    let methodsToInsert = newMethodsMatch ? newMethodsMatch[1] : newTestMethods;
+
+    if (targetedTests && targetedTests.length > 0) {
+        methodsToInsert = filterTestMethodsByTarget(methodsToInsert, targetedTests);
+    }
 
     // Insert before the last closing brace
     const beforeBrace = lines.slice(0, lastBraceIndex);
@@ -0,0 +1,52 @@
+import * as vscode from 'vscode';
+import { GenerationOptions } from '../api/types';
+
+/**
+ * A submitted generation job whose result has not been saved yet
+ */
+export interface PendingJob {
+    jobId: string;
+    sourceUri: string;
+    fileName: string;
+    selectedMethods?: string[];
+    scenarios?: string;
+    // Missing for jobs submitted by older versions
+    options?: GenerationOptions;
+    submittedAt: number;
+}
+
+/**
+ * Persists pending generation jobs in the workspace state so that they
+ * can be resumed after the window is reloaded
+ */
+export class JobManager {
+    private static readonly STATE_KEY = 'javaTestGenerator.pendingJobs';
+    private workspaceState: vscode.Memento;
+
+    constructor(workspaceState: vscode.Memento) {
+        this.workspaceState = workspaceState;
+    }
+
+    /**
+     * Gets all jobs that were submitted but not completed
+     */
+    public getPendingJobs(): PendingJob[] {
+        return this.workspaceState.get<PendingJob[]>(JobManager.STATE_KEY, []);
+    }
+
+    /**
+     * Records a newly submitted job
+     */
+    public async add(job: PendingJob): Promise<void> {
+        const jobs = this.getPendingJobs().filter(j => j.jobId !== job.jobId);
+        await this.workspaceState.update(JobManager.STATE_KEY, [...jobs, job]);
+    }
+
+    /**
+     * Forgets a job once its result was handled (or it failed)
+     */
+    public async remove(jobId: string): Promise<void> {
+        const jobs = this.getPendingJobs().filter(j => j.jobId !== jobId);
+        await this.workspaceState.update(JobManager.STATE_KEY, jobs);
+    }
+}
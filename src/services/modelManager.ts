@@ -0,0 +1,167 @@
+import * as vscode from 'vscode';
+import { ApiClient } from '../api/client';
+import { ModelInfo, ServerFeature } from '../api/types';
+import { getUserFriendlyErrorMessage } from '../api/errors';
+
+/**
+ * Result of the model quick pick. model is undefined for the server default.
+ */
+export interface ModelPick {
+    model?: string;
+}
+
+/**
+ * Loads the model list of the connected server and remembers the
+ * selected model per workspace
+ */
+export class ModelManager {
+    private static readonly STATE_KEY = 'javaTestGenerator.model';
+
+    private workspaceState: vscode.Memento;
+    private apiClient: ApiClient;
+    private models: ModelInfo[] | undefined;
+    private loading: Promise<ModelInfo[]> | undefined;
+    private onDidChangeEmitter = new vscode.EventEmitter<void>();
+
+    // Fires when the model list or the selection changes
+    public readonly onDidChange = this.onDidChangeEmitter.event;
+
+    constructor(workspaceState: vscode.Memento, apiClient: ApiClient) {
+        this.workspaceState = workspaceState;
+        this.apiClient = apiClient;
+
+        // A different server or version may offer different models
+        apiClient.capabilities.onDidChange(() => {
+            this.models = undefined;
+            this.loading = undefined;
+            this.onDidChangeEmitter.fire();
+        });
+    }
+
+    public isSupported(): boolean {
+        return this.apiClient.capabilities.has(ServerFeature.MODELS);
+    }
+
+    /**
+     * Models offered by the server, loaded once per server connection
+     * @returns an empty list if the server does not support model selection
+     */
+    public async getModels(signal?: AbortSignal): Promise<ModelInfo[]> {
+        if (!this.isSupported()) {
+            return [];
+        }
+        if (this.models) {
+            return this.models;
+        }
+
+        if (!this.loading) {
+            const loading = this.apiClient.listModels(signal).then((response) => {
+                if (this.loading === loading) {
+                    this.models = response.models;
+                }
+                return response.models;
+            }).finally(() => {
+                if (this.loading === loading) {
+                    this.loading = undefined;
+                }
+            });
+            this.loading = loading;
+        }
+        return this.loading;
+    }
+
+    /**
+     * The remembered model, or undefined to let the server choose
+     */
+    public getSelectedModel(): string | undefined {
+        return this.workspaceState.get<string>(ModelManager.STATE_KEY);
+    }
+
+    public async setSelectedModel(model: string | undefined): Promise<void> {
+        if (model === this.getSelectedModel()) {
+            return;
+        }
+        await this.workspaceState.update(ModelManager.STATE_KEY, model || undefined);
+        this.onDidChangeEmitter.fire();
+    }
+
+    /**
+     * The model to send with a request: the remembered model if the server
+     * still offers it
+     */
+    public async getModelForRequest(signal?: AbortSignal): Promise<string | undefined> {
+        const selected = this.getSelectedModel();
+        if (!selected || !this.isSupported()) {
+            return undefined;
+        }
+        try {
+            const models = await this.getModels(signal);
+            return models.some(m => m.id === selected) ? selected : undefined;
+        } catch (error) {
+            console.warn('[ModelManager] Failed to load models:', error);
+            return undefined;
+        }
+    }
+
+    /**
+     * Lets the user choose a model, preselecting the remembered one,
+     * and remembers the choice
+     * @returns undefined if the user cancelled
+     */
+    public async pickModel(title: string = 'Select Model'): Promise<ModelPick | undefined> {
+        const models = await this.getModels();
+        const selected = this.getSelectedModel();
+
+        const items: Array<vscode.QuickPickItem & { model?: string }> = [
+            { label: 'Server default', description: models.find(m => m.default)?.name, model: undefined },
+            ...models.map(m => ({
+                label: m.name || m.id,
+                description: m.name && m.name !== m.id ? m.id : undefined,
+                detail: m.description,
+                model: m.id
+            }))
+        ];
+
+        const quickPick = vscode.window.createQuickPick<typeof items[number]>();
+        quickPick.title = title;
+        quickPick.placeholder = 'The choice is remembered for this workspace';
+        quickPick.items = items;
+        quickPick.activeItems = items.filter(item => item.model === selected).slice(0, 1);
+
+        const picked = await new Promise<typeof items[number] | undefined>((resolve) => {
+            quickPick.onDidAccept(() => resolve(quickPick.selectedItems[0]));
+            quickPick.onDidHide(() => resolve(undefined));
+            quickPick.show();
+        });
+        quickPick.dispose();
+
+        if (!picked) {
+            return undefined;
+        }
+        await this.setSelectedModel(picked.model);
+        return { model: picked.model };
+    }
+
+    /**
+     * Lets the user choose the model for a generation. When the model list
+     * cannot be loaded, warns and continues with getModelForRequest instead
+     * of failing the generation.
+     * @returns undefined if the user cancelled
+     */
+    public async pickModelForGeneration(title: string): Promise<ModelPick | undefined> {
+        try {
+            return await this.pickModel(title);
+        } catch (error) {
+            console.warn('[ModelManager] Failed to load models:', error);
+            const model = await this.getModelForRequest();
+            vscode.window.showWarningMessage(
+                `Failed to load models, using ${model || 'the server default'}: ${getUserFriendlyErrorMessage(error)}`
+            );
+            return { model };
+        }
+    }
+
+    public dispose(): void {
+        this.onDidChangeEmitter.dispose();
+    }
+}
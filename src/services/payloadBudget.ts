@@ -0,0 +1,270 @@
+import { GenerateTestRequest, SourceFile } from '../api/types';
+import { PayloadTooLargeError } from '../api/errors';
+import { escapeRegExp, extractMethods, getMethodNameFromSignature, JavaMethod } from './javaParser';
+
+/**
+ * Reduction steps applied to a generation request, from the full
+ * payload to the smallest one. Each level includes the previous ones.
+ */
+export enum PayloadLevel {
+    FULL = 0,
+    DEPENDENCY_SIGNATURES = 1,
+    RELEVANT_DEPENDENCIES = 2,
+    SELECTED_METHODS = 3
+}
+
+const LEVEL_DESCRIPTIONS: Record<PayloadLevel, string> = {
+    [PayloadLevel.FULL]: 'full source and dependencies',
+    [PayloadLevel.DEPENDENCY_SIGNATURES]: 'dependency signatures only',
+    [PayloadLevel.RELEVANT_DEPENDENCIES]: 'most relevant dependencies only',
+    [PayloadLevel.SELECTED_METHODS]: 'selected methods only'
+};
+
+export function describePayloadLevel(level: PayloadLevel): string {
+    return LEVEL_DESCRIPTIONS[level];
+}
+
+/**
+ * Size of the request body in bytes
+ */
+export function getPayloadSize(request: GenerateTestRequest): number {
+    return Buffer.byteLength(JSON.stringify(request), 'utf8');
+}
+
+/**
+ * Builds the request for the given reduction level.
+ * Dependencies are only dropped as far as needed to fit the budget
+ * (a budget of 0 or less only drops dependencies the source never uses).
+ */
+export function reducePayload(
+    request: GenerateTestRequest,
+    level: PayloadLevel,
+    budget: number
+): GenerateTestRequest {
+    let sourceFile = request.sourceFile;
+    let dependencies = request.dependencies;
+
+    if (level >= PayloadLevel.DEPENDENCY_SIGNATURES && dependencies) {
+        dependencies = dependencies.map(toPublicSignatures);
+    }
+
+    if (level >= PayloadLevel.SELECTED_METHODS && request.selectedMethods && request.selectedMethods.length > 0) {
+        sourceFile = {
+            ...sourceFile,
+            content: keepSelectedMethods(sourceFile.content, request.selectedMethods)
+        };
+    }
+
+    const reduced: GenerateTestRequest = { ...request, sourceFile, dependencies };
+
+    if (level >= PayloadLevel.RELEVANT_DEPENDENCIES && dependencies && dependencies.length > 0) {
+        reduced.dependencies = dropLeastRelevant(reduced, budget);
+    }
+
+    return reduced;
+}
+
+/**
+ * Reduces the request, starting at the given level, until it fits the budget
+ * or no further reduction is possible
+ */
+export function fitPayload(
+    request: GenerateTestRequest,
+    budget: number,
+    startLevel: PayloadLevel = PayloadLevel.FULL
+): { request: GenerateTestRequest; level: PayloadLevel } {
+    let level = startLevel;
+    let reduced = reducePayload(request, level, budget);
+
+    while ((budget > 0 && getPayloadSize(reduced) > budget) && level < PayloadLevel.SELECTED_METHODS) {
+        level++;
+        reduced = reducePayload(request, level, budget);
+    }
+
+    return { request: reduced, level };
+}
+
+/**
+ * Sends the request within the byte budget. When the server still rejects
+ * it as too large, the request is retried at the next reduction level.
+ */
+export async function sendWithinBudget<T>(
+    request: GenerateTestRequest,
+    budget: number,
+    send: (request: GenerateTestRequest) => Promise<T>,
+    onReduce?: (level: PayloadLevel) => void
+): Promise<T> {
+    let fitted = fitPayload(request, budget);
+
+    for (;;) {
+        if (fitted.level > PayloadLevel.FULL) {
+            onReduce?.(fitted.level);
+        }
+
+        try {
+            return await send(fitted.request);
+        } catch (error) {
+            if (!(error instanceof PayloadTooLargeError) || fitted.level >= PayloadLevel.SELECTED_METHODS) {
+                throw error;
+            }
+
+            // The server limit is below anything sent so far
+            const rejectedSize = getPayloadSize(fitted.request);
+            const effectiveBudget = budget > 0 ? Math.min(budget, rejectedSize - 1) : rejectedSize - 1;
+
+            const next = fitPayload(request, effectiveBudget, fitted.level + 1);
+            if (getPayloadSize(next.request) >= rejectedSize) {
+                // No level makes it any smaller (e.g. selected methods only
+                // without selected methods), it would be rejected again
+                throw error;
+            }
+            fitted = next;
+        }
+    }
+}
+
+/**
+ * Replaces a dependency with its public API (class declaration and
+ * public method signatures). Files without class methods (interfaces,
+ * enums) are kept with comments removed.
+ */
+function toPublicSignatures(dependency: SourceFile): SourceFile {
+    const content = stripComments(dependency.content);
+    const publicMethods = extractMethods(content).filter(m => m.modifiers.includes('public'));
+    const header = content.match(/^[^\n;]*\b(?:class|record)\s+\w+[^{;]*\{/m);
+
+    if (publicMethods.length === 0 || !header) {
+        return { ...dependency, content };
+    }
+
+    const lines: string[] = [];
+    if (dependency.packageName) {
+        lines.push(`package ${dependency.packageName};`, '');
+    }
+    lines.push(header[0].trim());
+    lines.push(...publicMethods.map(m => `    ${m.signature};`));
+    lines.push('}', '');
+
+    return { ...dependency, content: lines.join('\n') };
+}
+
+/**
+ * Drops dependencies, least relevant first, until the request fits the budget.
+ * Dependencies the targeted source code never references are always dropped.
+ */
+function dropLeastRelevant(request: GenerateTestRequest, budget: number): SourceFile[] {
+    const targetCode = getTargetCode(request.sourceFile.content, request.selectedMethods);
+    const ranked = (request.dependencies || [])
+        .map(dependency => ({
+            dependency,
+            relevance: getRelevance(dependency, request.sourceFile.content, targetCode)
+        }))
+        .filter(entry => entry.relevance > 0)
+        .sort((a, b) => b.relevance - a.relevance)
+        .map(entry => entry.dependency);
+
+    while (ranked.length > 0 && budget > 0 &&
+        getPayloadSize({ ...request, dependencies: ranked }) > budget) {
+        ranked.pop();
+    }
+
+    return ranked;
+}
+
+/**
+ * Counts references to a dependency (its class name and the fields or
+ * variables declared with that type) in the targeted code
+ */
+function getRelevance(dependency: SourceFile, sourceContent: string, targetCode: string): number {
+    const className = dependency.fileName.replace(/\.java$/, '');
+    const names = new Set<string>([className]);
+    const declarationRegex = new RegExp(`\\b${escapeRegExp(className)}(?:<[^>]*>)?\\s+(\\w+)\\s*[;=,)]`, 'g');
+
+    let match;
+    while ((match = declarationRegex.exec(sourceContent)) !== null) {
+        names.add(match[1]);
+    }
+
+    let count = 0;
+    for (const name of names) {
+        count += (targetCode.match(new RegExp(`\\b${escapeRegExp(name)}\\b`, 'g')) || []).length;
+    }
+    return count;
+}
+
+/**
+ * Code the test is generated for: the selected methods, or the whole
+ * source without its import section
+ */
+function getTargetCode(content: string, selectedMethods?: string[]): string {
+    if (!selectedMethods || selectedMethods.length === 0) {
+        return content.replace(/^\s*(?:package|import)\s+[^;]+;/gm, '');
+    }
+
+    const lines = content.split('\n');
+    const selectedNames = selectedMethods.map(getMethodNameFromSignature);
+    return extractMethods(content)
+        .filter(m => selectedNames.includes(m.name))
+        .map(m => lines.slice(m.startLine - 1, m.endLine).join('\n'))
+        .join('\n');
+}
+
+/**
+ * Removes every method that is neither selected nor called from a
+ * selected method, keeping fields, constructors and the class structure
+ */
+function keepSelectedMethods(content: string, selectedMethods: string[]): string {
+    const lines = content.split('\n');
+    const methods = extractMethods(content);
+    const selectedNames = selectedMethods.map(getMethodNameFromSignature);
+    const selectedCode = getTargetCode(content, selectedMethods);
+
+    const removed = methods.filter(m =>
+        !selectedNames.includes(m.name) &&
+        !new RegExp(`\\b${escapeRegExp(m.name)}\\s*\\(`).test(selectedCode)
+    );
+
+    if (removed.length === 0 || removed.length === methods.length) {
+        return content;
+    }
+
+    const removedLines = new Set<number>();
+    removed.forEach(method => getMemberLines(lines, method).forEach(line => removedLines.add(line)));
+
+    const result: string[] = [];
+    let markerAdded = false;
+    lines.forEach((line, index) => {
+        if (!removedLines.has(index)) {
+            result.push(line);
+        } else if (!markerAdded) {
+            const indent = line.match(/^\s*/)?.[0] || '';
+            result.push(`${indent}// Other methods omitted to reduce the request size`);
+            markerAdded = true;
+        }
+    });
+
+    return result.join('\n');
+}
+
+/**
+ * Zero-based line indexes of a method including its annotations and doc comment
+ */
+function getMemberLines(lines: string[], method: JavaMethod): number[] {
+    let start = method.startLine - 1;
+    while (start > 0 && /^\s*(?:@|\/\*|\*|\/\/)/.test(lines[start - 1])) {
+        start--;
+    }
+
+    const indexes: number[] = [];
+    for (let i = start; i < method.endLine; i++) {
+        indexes.push(i);
+    }
+    return indexes;
+}
+
+function stripComments(content: string): string {
+    return content
+        .replace(/\/\*[\s\S]*?\*\//g, '')
+        .replace(/^\s*\/\/.*$/gm, '')
+        .replace(/\n{3,}/g, '\n\n');
+}
@@ -0,0 +1,115 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { PathResolver } from './pathResolver';
+import { JavaTestClass, parseTestClass } from './javaParser';
+
+/**
+ * The test class of a source file
+ */
+export interface SourceTestClass {
+    testUri: vscode.Uri;
+    testClass: JavaTestClass;
+}
+
+/**
+ * Reads the test class of each open source file and watches its test file,
+ * at the path PathResolver.resolveTestPath resolved for it, so that
+ * providers can refresh when generations, merges or undo add, change or
+ * remove tests
+ */
+export class TestFileWatcher {
+    private pathResolver = new PathResolver();
+    private watchers = new Map<string, { testUri: string; watcher: vscode.FileSystemWatcher }>();
+    private onDidChangeEmitter = new vscode.EventEmitter<vscode.Uri>();
+    private disposables: vscode.Disposable[] = [];
+
+    // Fires with the source file whose test file changed
+    public readonly onDidChange = this.onDidChangeEmitter.event;
+
+    constructor() {
+        this.disposables.push(
+            vscode.workspace.onDidCloseTextDocument((document) => this.unwatch(document.uri))
+        );
+    }
+
+    /**
+     * Resolves, watches and parses the test class of a source file.
+     * Returns undefined for test sources, which have no tests of their
+     * own, and for files outside of the workspace.
+     */
+    public async readTestClass(sourceUri: vscode.Uri): Promise<SourceTestClass | undefined> {
+        if (/\/test\/java\//.test(sourceUri.path)) {
+            return undefined;
+        }
+
+        let testUri: vscode.Uri;
+        try {
+            testUri = this.pathResolver.resolveTestPath(sourceUri);
+        } catch {
+            return undefined;
+        }
+        this.watch(sourceUri, testUri);
+
+        const className = path.basename(sourceUri.fsPath, '.java');
+        return { testUri, testClass: parseTestClass(await this.readTestCode(testUri), className) };
+    }
+
+    /**
+     * Reads the test file from the open editor if there is one, since it
+     * may have unsaved changes
+     */
+    private async readTestCode(testUri: vscode.Uri): Promise<string> {
+        const openDocument = vscode.workspace.textDocuments.find(d => d.uri.fsPath === testUri.fsPath);
+        if (openDocument) {
+            return openDocument.getText();
+        }
+
+        try {
+            return new TextDecoder().decode(await vscode.workspace.fs.readFile(testUri));
+        } catch {
+            // No test file yet
+            return '';
+        }
+    }
+
+    /**
+     * Starts watching the test file of a source file, replacing the
+     * watcher of a previously resolved test path
+     */
+    private watch(sourceUri: vscode.Uri, testUri: vscode.Uri): void {
+        const key = sourceUri.toString();
+        if (this.watchers.get(key)?.testUri === testUri.toString()) {
+            return;
+        }
+        this.unwatch(sourceUri);
+
+        const workspaceFolder = vscode.workspace.getWorkspaceFolder(testUri);
+        const pattern = workspaceFolder
+            ? new vscode.RelativePattern(
+                workspaceFolder,
+                path.relative(workspaceFolder.uri.fsPath, testUri.fsPath).replace(/\\/g, '/')
+            )
+            : testUri.fsPath;
+        const watcher = vscode.workspace.createFileSystemWatcher(pattern);
+        const fire = () => this.onDidChangeEmitter.fire(sourceUri);
+        watcher.onDidCreate(fire);
+        watcher.onDidChange(fire);
+        watcher.onDidDelete(fire);
+
+        this.watchers.set(key, { testUri: testUri.toString(), watcher });
+    }
+
+    private unwatch(sourceUri: vscode.Uri): void {
+        const key = sourceUri.toString();
+        this.watchers.get(key)?.watcher.dispose();
+        this.watchers.delete(key);
+    }
+
+    public dispose(): void {
+        this.watchers.forEach(({ watcher }) => watcher.dispose());
+        this.watchers.clear();
+        this.onDidChangeEmitter.dispose();
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+    }
+}
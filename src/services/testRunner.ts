@@ -0,0 +1,224 @@
+import * as vscode from 'vscode';
+import { spawn } from 'child_process';
+
+export type BuildTool = 'maven' | 'gradle';
+
+/**
+ * Result of a Maven/Gradle test run
+ */
+export interface TestRunResult {
+    success: boolean;
+    buildTool: BuildTool;
+    output: string;
+    details: string;
+}
+
+/**
+ * Service for running tests with the project's build tool
+ */
+export class TestRunner {
+    /**
+     * Validates test class name to prevent command injection
+     * Only allows valid Java class name characters
+     */
+    public validateTestClassName(name: string): boolean {
+        // Java class names: start with letter or underscore, followed by letters, digits, underscores, or $
+        // Also allow dots for fully qualified names and * for wildcards
+        const validPattern = /^[a-zA-Z_$][a-zA-Z0-9_$]*(\.[a-zA-Z_$][a-zA-Z0-9_$]*)*\*?$/;
+        return validPattern.test(name) && name.length <= 256;
+    }
+
+    /**
+     * Runs a single test class, or all tests when no class name is given
+     * @throws Error if the class name is invalid or no build file is found
+     */
+    public async runTests(workspaceFolder: vscode.WorkspaceFolder, testClassName?: string): Promise<TestRunResult> {
+        // Validate test class name to prevent command injection
+        if (testClassName !== undefined && !this.validateTestClassName(testClassName)) {
+            throw new Error('Invalid test class name. Only valid Java class names are allowed.');
+        }
+
+        const buildTool = await this.detectBuildTool(workspaceFolder.uri);
+        let command: string;
+        let args: string[];
+
+        if (buildTool === 'gradle') {
+            command = this.getGradleCommand();
+            args = testClassName
+                ? ['test', '--tests', testClassName, '--info']
+                : ['test', '--info'];
+        } else if (buildTool === 'maven') {
+            command = 'mvn';
+            args = testClassName ? ['test', `-Dtest=${testClassName}`] : ['test'];
+        } else {
+            throw new Error('No Maven or Gradle build file found');
+        }
+
+        const output = await this.executeCommand(command, args, workspaceFolder.uri.fsPath);
+
+        return {
+            success: this.parseTestResult(output, buildTool),
+            buildTool,
+            output,
+            details: this.formatTestOutput(output)
+        };
+    }
+
+    /**
+     * Compiles the main and test sources without running any test
+     * @throws Error if no build file is found
+     */
+    public async compileTests(workspaceFolder: vscode.WorkspaceFolder): Promise<TestRunResult> {
+        const buildTool = await this.detectBuildTool(workspaceFolder.uri);
+        let command: string;
+        let args: string[];
+
+        if (buildTool === 'gradle') {
+            command = this.getGradleCommand();
+            args = ['compileTestJava', '--console=plain'];
+        } else if (buildTool === 'maven') {
+            command = 'mvn';
+            args = ['test-compile', '--batch-mode'];
+        } else {
+            throw new Error('No Maven or Gradle build file found');
+        }
+
+        const output = await this.executeCommand(command, args, workspaceFolder.uri.fsPath);
+        return {
+            // Maven prints BUILD SUCCESS, Gradle BUILD SUCCESSFUL
+            success: output.includes('BUILD SUCCESS'),
+            buildTool,
+            output,
+            details: this.formatTestOutput(output)
+        };
+    }
+
+    public getGradleCommand(): string {
+        return process.platform === 'win32' ? 'gradlew.bat' : './gradlew';
+    }
+
+    public async detectBuildTool(workspaceUri: vscode.Uri): Promise<BuildTool | null> {
+        const gradleFiles = await vscode.workspace.findFiles(
+            new vscode.RelativePattern(workspaceUri, '{build.gradle,build.gradle.kts}'),
+            null,
+            1
+        );
+        if (gradleFiles.length > 0) {
+            return 'gradle';
+        }
+
+        const mavenFiles = await vscode.workspace.findFiles(
+            new vscode.RelativePattern(workspaceUri, 'pom.xml'),
+            null,
+            1
+        );
+        if (mavenFiles.length > 0) {
+            return 'maven';
+        }
+
+        return null;
+    }
+
+    /**
+     * Executes a command safely using spawn (no shell) to prevent command injection
+     */
+    public executeCommand(command: string, args: string[], cwd: string): Promise<string> {
+        return new Promise((resolve, reject) => {
+            // Use spawn with shell: false (default) to prevent command injection
+            const child = spawn(command, args, {
+                cwd,
+                shell: false,  // Explicitly disable shell to prevent injection
+                env: { ...process.env },  // Inherit environment but don't expose sensitive vars
+                windowsHide: true
+            });
+
+            let stdout = '';
+            let stderr = '';
+
+            child.stdout.on('data', (data: Buffer) => {
+                stdout += data.toString();
+            });
+
+            child.stderr.on('data', (data: Buffer) => {
+                stderr += data.toString();
+            });
+
+            child.on('error', (error: Error) => {
+                clearTimeout(timer);
+                reject(error);
+            });
+
+            child.on('close', (code: number) => {
+                clearTimeout(timer);
+                const output = stdout + '\n' + stderr;
+                // Even with non-zero exit code, we might have useful test output
+                if (code !== 0 && !stdout && !stderr) {
+                    reject(new Error(`Command exited with code ${code}`));
+                } else {
+                    resolve(output);
+                }
+            });
+
+            // Set timeout to prevent hanging processes (5 minutes)
+            const timer = setTimeout(() => {
+                child.kill('SIGTERM');
+                reject(new Error('Command timed out after 5 minutes'));
+            }, 5 * 60 * 1000);
+        });
+    }
+
+    private parseTestResult(output: string, buildTool: BuildTool | null): boolean {
+        const lowerOutput = output.toLowerCase();
+
+        if (buildTool === 'gradle') {
+            // Gradle success indicators
+            if (lowerOutput.includes('build successful') ||
+                (lowerOutput.includes('test') && !lowerOutput.includes('failed') && !lowerOutput.includes('failure'))) {
+                return true;
+            }
+            return !lowerOutput.includes('build failed') &&
+                   !lowerOutput.includes('test failed') &&
+                   !lowerOutput.includes('failures:');
+        } else if (buildTool === 'maven') {
+            // Maven success indicators
+            if (lowerOutput.includes('build success')) {
+                return true;
+            }
+            return !lowerOutput.includes('build failure') &&
+                   !lowerOutput.includes('tests run:') &&
+                   !lowerOutput.includes('failures:');
+        }
+
+        return !lowerOutput.includes('fail') && !lowerOutput.includes('error');
+    }
+
+    private formatTestOutput(output: string): string {
+        // Extract relevant lines from test output
+        const lines = output.split('\n');
+        const relevantLines: string[] = [];
+
+        for (const line of lines) {
+            const lowerLine = line.toLowerCase();
+            // Include test-related lines
+            if (lowerLine.includes('test') ||
+                lowerLine.includes('passed') ||
+                lowerLine.includes('failed') ||
+                lowerLine.includes('success') ||
+                lowerLine.includes('failure') ||
+                lowerLine.includes('error') ||
+                lowerLine.includes('build') ||
+                lowerLine.includes('running') ||
+                line.trim().startsWith('>')) {
+                relevantLines.push(line);
+            }
+        }
+
+        // Limit output length
+        const maxLines = 30;
+        if (relevantLines.length > maxLines) {
+            return relevantLines.slice(0, maxLines).join('\n') + '\n... (truncated)';
+        }
+
+        return relevantLines.join('\n') || output.substring(0, 1000);
+    }
+}
@@ -0,0 +1,181 @@
+import * as vscode from 'vscode';
+import { SettingsManager } from '../config/settings';
+import { GenerationMetadata } from '../api/types';
+
+/**
+ * Server usage of a single generation or fix request
+ */
+export interface UsageRecord {
+    timestamp: number;
+    // Workspace-relative path of the source file
+    file: string;
+    model: string;
+    tokensUsed: number;
+    generationTime: number;
+    retryCount: number;
+    kind: 'generate' | 'fix';
+}
+
+/**
+ * Usage summed over a day, file or model
+ */
+export interface UsageTotal {
+    key: string;
+    requests: number;
+    tokensUsed: number;
+    generationTime: number;
+    retryCount: number;
+}
+
+export type UsageGrouping = 'day' | 'file' | 'model';
+
+/**
+ * Records the GenerationMetadata of every response in the global state
+ * and warns when the monthly token quota is about to be exceeded
+ */
+export class UsageTracker {
+    private static readonly STATE_KEY = 'javaTestGenerator.usage';
+    // Older records are dropped, the report covers at most a year
+    private static readonly RETENTION_DAYS = 400;
+    private static readonly MAX_RECORDS = 20000;
+
+    private globalState: vscode.Memento;
+    private settings: SettingsManager;
+    private onDidChangeEmitter = new vscode.EventEmitter<void>();
+
+    public readonly onDidChange = this.onDidChangeEmitter.event;
+
+    constructor(globalState: vscode.Memento, settings: SettingsManager) {
+        this.globalState = globalState;
+        this.settings = settings;
+    }
+
+    public getRecords(): UsageRecord[] {
+        return this.globalState.get<UsageRecord[]>(UsageTracker.STATE_KEY, []);
+    }
+
+    /**
+     * Records the metadata of a response. Responses without metadata are ignored.
+     */
+    public async record(
+        metadata: GenerationMetadata | undefined,
+        sourceUri: vscode.Uri,
+        kind: UsageRecord['kind'] = 'generate'
+    ): Promise<void> {
+        if (!metadata) {
+            return;
+        }
+
+        const now = Date.now();
+        const usedBefore = this.getMonthTokens(now);
+        const cutoff = now - UsageTracker.RETENTION_DAYS * 24 * 60 * 60 * 1000;
+        const records = this.getRecords()
+            .filter(r => r.timestamp >= cutoff)
+            .slice(-(UsageTracker.MAX_RECORDS - 1));
+
+        records.push({
+            timestamp: now,
+            file: vscode.workspace.asRelativePath(sourceUri),
+            model: metadata.modelUsed || 'unknown',
+            tokensUsed: metadata.tokensUsed || 0,
+            generationTime: metadata.generationTime,
+            retryCount: metadata.retryCount || 0,
+            kind
+        });
+
+        await this.globalState.update(UsageTracker.STATE_KEY, records);
+        this.onDidChangeEmitter.fire();
+
+        this.checkQuota(usedBefore, usedBefore + (metadata.tokensUsed || 0));
+    }
+
+    /**
+     * Tokens used in the calendar month of the given time
+     */
+    public getMonthTokens(time: number = Date.now()): number {
+        const month = monthKey(time);
+        return this.getRecords()
+            .filter(r => monthKey(r.timestamp) === month)
+            .reduce((sum, r) => sum + r.tokensUsed, 0);
+    }
+
+    public async clear(): Promise<void> {
+        await this.globalState.update(UsageTracker.STATE_KEY, undefined);
+        this.onDidChangeEmitter.fire();
+    }
+
+    /**
+     * Warns once when this month's usage crosses the warning threshold
+     * and once when it exceeds the quota. The quota never blocks requests.
+     */
+    private checkQuota(usedBefore: number, usedNow: number): void {
+        const quota = this.settings.getMonthlyTokenQuota();
+        if (quota <= 0) {
+            return;
+        }
+
+        const threshold = quota * Math.min(Math.max(this.settings.getQuotaWarningThreshold(), 0), 100) / 100;
+        let message: string | undefined;
+        if (usedBefore <= quota && usedNow > quota) {
+            message = `This month's token usage (${formatNumber(usedNow)}) exceeded the quota of ${formatNumber(quota)} tokens.`;
+        } else if (usedBefore < threshold && usedNow >= threshold) {
+            const percent = Math.floor(usedNow / quota * 100);
+            message = `${percent}% of this month's token quota is used (${formatNumber(usedNow)} of ${formatNumber(quota)} tokens).`;
+        }
+
+        if (message) {
+            vscode.window.showWarningMessage(message, 'Show Usage Report').then((action) => {
+                if (action === 'Show Usage Report') {
+                    vscode.commands.executeCommand('javaTestGenerator.showUsageReport');
+                }
+            });
+        }
+    }
+
+    public dispose(): void {
+        this.onDidChangeEmitter.dispose();
+    }
+}
+
+/**
+ * Sums records per day, file or model, largest token usage first
+ * (days are sorted newest first)
+ */
+export function summarizeUsage(records: UsageRecord[], grouping: UsageGrouping): UsageTotal[] {
+    const totals = new Map<string, UsageTotal>();
+
+    for (const record of records) {
+        const key = grouping === 'day' ? dayKey(record.timestamp) : record[grouping];
+        const total = totals.get(key) || { key, requests: 0, tokensUsed: 0, generationTime: 0, retryCount: 0 };
+        total.requests++;
+        total.tokensUsed += record.tokensUsed;
+        total.generationTime += record.generationTime;
+        total.retryCount += record.retryCount;
+        totals.set(key, total);
+    }
+
+    const result = [...totals.values()];
+    return grouping === 'day'
+        ? result.sort((a, b) => b.key.localeCompare(a.key))
+        : result.sort((a, b) => b.tokensUsed - a.tokensUsed);
+}
+
+/**
+ * Local calendar day as YYYY-MM-DD
+ */
+export function dayKey(time: number): string {
+    const date = new Date(time);
+    return `${monthKey(time)}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+/**
+ * Local calendar month as YYYY-MM
+ */
+export function monthKey(time: number): string {
+    const date = new Date(time);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+export function formatNumber(value: number): string {
+    return value.toLocaleString('en-US');
+}
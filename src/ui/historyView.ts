@@ -0,0 +1,173 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { GenerationHistory, GenerationRecord } from '../services/generationHistory';
+import { GenerationJournal } from '../services/generationJournal';
+import { getMethodNameFromSignature } from '../services/javaParser';
+import { AnalysisResult } from '../api/types';
+
+/**
+ * A node of the history tree. Every node knows the generation it belongs to,
+ * so that the context menu commands work on any of them.
+ */
+export class HistoryItem extends vscode.TreeItem {
+    constructor(
+        label: string,
+        public readonly record: GenerationRecord,
+        public readonly children?: HistoryItem[]
+    ) {
+        super(label, children ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None);
+    }
+}
+
+/**
+ * Tree view of past test generations with their inputs and the server's analysis
+ */
+export class HistoryTreeProvider implements vscode.TreeDataProvider<HistoryItem> {
+    public static readonly viewType = 'javaTestGenerator.history';
+
+    private onDidChangeTreeDataEmitter = new vscode.EventEmitter<void>();
+    private disposables: vscode.Disposable[] = [];
+
+    public readonly onDidChangeTreeData = this.onDidChangeTreeDataEmitter.event;
+
+    constructor(
+        private readonly history: GenerationHistory,
+        private readonly journal: GenerationJournal
+    ) {
+        this.disposables.push(
+            history.onDidChange(() => this.onDidChangeTreeDataEmitter.fire()),
+            // Restoring depends on the journal entry still being there
+            journal.onDidChange(() => this.onDidChangeTreeDataEmitter.fire())
+        );
+    }
+
+    public getTreeItem(element: HistoryItem): vscode.TreeItem {
+        return element;
+    }
+
+    public getChildren(element?: HistoryItem): HistoryItem[] {
+        if (element) {
+            return element.children || [];
+        }
+        return this.history.getRecords().map(record => this.createRecordItem(record));
+    }
+
+    private createRecordItem(record: GenerationRecord): HistoryItem {
+        const sourceUri = vscode.Uri.parse(record.sourceUri);
+        const testUri = vscode.Uri.parse(record.testUri);
+        const model = record.modelUsed || record.options?.model || 'server default';
+
+        const children = [
+            this.createFileItem('Source', sourceUri, 'file-code', record),
+            this.createFileItem('Test', testUri, 'beaker', record),
+            this.createDetailItem('Generated', new Date(record.timestamp).toLocaleString(), 'clock', record),
+            this.createDetailItem('Model', model, 'hubot', record)
+        ];
+        if (record.options) {
+            const { testFramework, mockingFramework, coverageTarget, includeEdgeCases } = record.options;
+            children.push(this.createDetailItem(
+                'Options',
+                `${testFramework}, ${mockingFramework}, ${coverageTarget}% coverage${includeEdgeCases ? ', edge cases' : ''}`,
+                'settings-gear',
+                record
+            ));
+        }
+        children.push(this.createDetailItem(
+            'Methods',
+            record.selectedMethods?.map(getMethodNameFromSignature).join(', ') || 'all',
+            'symbol-method',
+            record
+        ));
+        if (record.scenarios) {
+            const scenarios = this.createDetailItem('Approved Scenarios', 'click to view', 'checklist', record);
+            scenarios.command = {
+                command: 'javaTestGenerator.history.viewScenarios',
+                title: 'View Scenarios',
+                arguments: [scenarios]
+            };
+            children.push(scenarios);
+        }
+        if (record.analysis) {
+            children.push(this.createAnalysisItem(record.analysis, record));
+        }
+
+        const item = new HistoryItem(path.basename(sourceUri.fsPath, '.java'), record, children);
+        item.description = `${new Date(record.timestamp).toLocaleString()} · ${model}`;
+        item.tooltip = new vscode.MarkdownString(
+            `**${path.basename(testUri.fsPath)}**\n\n` +
+            `Source: \`${vscode.workspace.asRelativePath(sourceUri)}\`\n\n` +
+            `Test: \`${vscode.workspace.asRelativePath(testUri)}\``
+        );
+        item.iconPath = new vscode.ThemeIcon('history');
+        item.contextValue = `${this.getContextValue(record)} root`;
+        return item;
+    }
+
+    private createAnalysisItem(analysis: AnalysisResult, record: GenerationRecord): HistoryItem {
+        const details: HistoryItem[] = [];
+        if (analysis.astSummary) {
+            details.push(this.createDetailItem('Method count', String(analysis.astSummary.methodCount), 'symbol-number', record));
+            if (analysis.astSummary.publicMethods.length > 0) {
+                details.push(this.createDetailItem('Public methods', analysis.astSummary.publicMethods.join(', '), 'symbol-method', record));
+            }
+            if (analysis.astSummary.dependencies.length > 0) {
+                details.push(this.createDetailItem('Dependencies', analysis.astSummary.dependencies.join(', '), 'references', record));
+            }
+            if (analysis.astSummary.annotations && analysis.astSummary.annotations.length > 0) {
+                details.push(this.createDetailItem('Annotations', analysis.astSummary.annotations.join(', '), 'symbol-key', record));
+            }
+        }
+        for (const suggestion of analysis.mockingSuggestions || []) {
+            details.push(this.createDetailItem(
+                `Mock ${suggestion.interface}`,
+                [suggestion.suggestedMocks.join(', '), suggestion.strategy].filter(Boolean).join(' · '),
+                'symbol-interface',
+                record
+            ));
+        }
+        for (const advice of analysis.argumentCaptorAdvice || []) {
+            details.push(this.createDetailItem('ArgumentCaptor', advice, 'lightbulb', record));
+        }
+        if (analysis.selfHealingGuide) {
+            details.push(this.createDetailItem('Self-healing guide', analysis.selfHealingGuide, 'tools', record));
+        }
+
+        const item = new HistoryItem('Analysis', record, details);
+        item.iconPath = new vscode.ThemeIcon('graph');
+        item.contextValue = this.getContextValue(record);
+        return item;
+    }
+
+    private createFileItem(label: string, uri: vscode.Uri, icon: string, record: GenerationRecord): HistoryItem {
+        const item = this.createDetailItem(label, vscode.workspace.asRelativePath(uri), icon, record);
+        item.resourceUri = uri;
+        item.command = { command: 'vscode.open', title: 'Open File', arguments: [uri] };
+        return item;
+    }
+
+    private createDetailItem(label: string, description: string, icon: string, record: GenerationRecord): HistoryItem {
+        const item = new HistoryItem(label, record);
+        item.description = description;
+        item.tooltip = `${label}: ${description}`;
+        item.iconPath = new vscode.ThemeIcon(icon);
+        item.contextValue = this.getContextValue(record);
+        return item;
+    }
+
+    /**
+     * Context value for the menus: "generation", plus "scenarios" and
+     * "restorable" when those actions apply ("root" is added for the
+     * generation nodes themselves)
+     */
+    private getContextValue(record: GenerationRecord): string {
+        const entry = record.journalEntryId ? this.journal.getEntry(record.journalEntryId) : undefined;
+        const restorable = entry?.files.some(f => f.uri === record.testUri);
+        return ['generation', record.scenarios && 'scenarios', restorable && 'restorable'].filter(Boolean).join(' ');
+    }
+
+    public dispose(): void {
+        this.onDidChangeTreeDataEmitter.dispose();
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+    }
+}
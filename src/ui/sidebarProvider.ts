@@ -1,9 +1,17 @@
 import * as vscode from 'vscode';
-import { spawn } from 'child_process';
+import * as path from 'path';
 import { ApiClient } from '../api/client';
 import { SettingsManager } from '../config/settings';
-import { getUserFriendlyErrorMessage } from '../api/errors';
+import { getUserFriendlyErrorMessage, RequestCancelledError } from '../api/errors';
 import { extractMethods } from '../services/javaParser';
+import { TestRunner, TestRunResult } from '../services/testRunner';
+import { FileManager } from '../services/fileManager';
+import { PathResolver } from '../services/pathResolver';
+import { UsageTracker } from '../services/usageTracker';
+import { DiagnosticReporter } from '../services/diagnosticReport';
+import { ModelManager } from '../services/modelManager';
+import { GenerationJournal, GenerationTransaction } from '../services/generationJournal';
+import { GenerationOptions, ServerFeature } from '../api/types';
 
 /**
  * Provides the sidebar webview panel
@@ -14,16 +22,40 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
     private _view?: vscode.WebviewView;
     private _apiClient: ApiClient;
     private _settings: SettingsManager;
+    private _usageTracker: UsageTracker;
+    private _reporter: DiagnosticReporter;
+    private _modelManager: ModelManager;
+    private _journal: GenerationJournal;
     private _extensionUri: vscode.Uri;
+    private _scenarioAbortController?: AbortController;
+    private _healingAbortController?: AbortController;
+    private _testRunner = new TestRunner();
+
+    // Only the tail of the build output is sent, it holds the failure summary
+    private static readonly MAX_FAILURE_OUTPUT = 20000;
 
     constructor(
         extensionUri: vscode.Uri,
         apiClient: ApiClient,
-        settings: SettingsManager
+        settings: SettingsManager,
+        usageTracker: UsageTracker,
+        reporter: DiagnosticReporter,
+        modelManager: ModelManager,
+        journal: GenerationJournal
     ) {
         this._extensionUri = extensionUri;
         this._apiClient = apiClient;
         this._settings = settings;
+        this._usageTracker = usageTracker;
+        this._reporter = reporter;
+        this._modelManager = modelManager;
+        this._journal = journal;
+
+        // Hide workflow steps the connected server does not support
+        apiClient.capabilities.onDidChange(() => this._sendCapabilities());
+
+        // Keep the model picker in sync with the server's list and the selection
+        modelManager.onDidChange(() => this._sendModels());
     }
 
     public resolveWebviewView(
@@ -62,7 +94,7 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
                     await this._selectFile();
                     break;
                 case 'generateTestForFile':
-                    await this._generateTestForFile(message.filePath, message.scenarios);
+                    await this._generateTestForFile(message.filePath, message.scenarios, message.selectedMethods);
                     break;
                 case 'handleDroppedUri':
                     await this._handleDroppedUri(message.uri);
@@ -73,15 +105,27 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
                 case 'runAllTests':
                     await this._runAllTests();
                     break;
+                case 'fixFailingTests':
+                    await this._fixFailingTests(message.filePath, message.testClassName);
+                    break;
+                case 'cancelHealing':
+                    this._healingAbortController?.abort();
+                    break;
                 case 'generateScenarios':
                     await this._generateScenarios(message.filePath, message.selectedMethods);
                     break;
+                case 'cancelScenarios':
+                    this._scenarioAbortController?.abort();
+                    break;
                 case 'useCurrentFile':
                     await this._useCurrentFile();
                     break;
                 case 'extractMethods':
                     await this._extractMethods(message.filePath);
                     break;
+                case 'selectModel':
+                    await this._modelManager.setSelectedModel(message.model || undefined);
+                    break;
             }
         });
 
@@ -106,9 +150,43 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
                 mockingFramework: this._settings.getMockingFramework(),
                 isConfigured: this._settings.isConfigured()
             });
+            this._sendCapabilities();
+            this._sendModels();
+        }
+    }
+
+    private async _sendModels(): Promise<void> {
+        if (!this._view) {
+            return;
+        }
+        if (!this._modelManager.isSupported()) {
+            this._view.webview.postMessage({ command: 'modelsLoaded', supported: false, models: [] });
+            return;
+        }
+
+        try {
+            const models = await this._modelManager.getModels();
+            this._view?.webview.postMessage({
+                command: 'modelsLoaded',
+                supported: true,
+                models: models.map(m => ({ id: m.id, label: m.name || m.id, default: Boolean(m.default) })),
+                selected: this._modelManager.getSelectedModel() || ''
+            });
+        } catch (error) {
+            console.warn('[SidebarProvider] Failed to load models:', error);
+            this._view?.webview.postMessage({ command: 'modelsLoaded', supported: false, models: [] });
         }
     }
 
+    private _sendCapabilities(): void {
+        const capabilities = this._apiClient.capabilities;
+        this._view?.webview.postMessage({
+            command: 'capabilities',
+            scenarios: capabilities.has(ServerFeature.SCENARIOS),
+            selfHealing: capabilities.has(ServerFeature.SELF_HEALING)
+        });
+    }
+
     private async _saveSettings(apiUrl: string, apiKey: string): Promise<void> {
         try {
             await this._settings.setApiUrl(apiUrl);
@@ -150,7 +228,7 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
                 success: false,
                 error: errorMessage
             });
-            vscode.window.showErrorMessage(errorMessage);
+            this._reporter.showError(errorMessage, error);
         }
     }
 
@@ -199,14 +277,18 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
         });
     }
 
-    private async _generateTestForFile(filePath: string, scenarios?: string): Promise<void> {
+    private async _generateTestForFile(
+        filePath: string,
+        scenarios?: string,
+        selectedMethods?: string[]
+    ): Promise<void> {
         if (!filePath) {
             vscode.window.showWarningMessage('No file selected');
             return;
         }
 
         const uri = vscode.Uri.file(filePath);
-        await vscode.commands.executeCommand('javaTestGenerator.generateTest', uri, scenarios);
+        await vscode.commands.executeCommand('javaTestGenerator.generateTest', uri, scenarios, selectedMethods);
     }
 
     private async _handleDroppedUri(uriString: string): Promise<void> {
@@ -267,7 +349,7 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
         }
     }
 
-    private async _generateScenarios(filePath: string, selectedMethods?: string[]): Promise<void> {
+    private async _generateScenarios(filePath: string, selectedMethods?: string[], bypassCache = false): Promise<void> {
         if (!filePath) {
             this._view?.webview.postMessage({
                 command: 'scenarioError',
@@ -276,6 +358,11 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
             return;
         }
 
+        // Only one scenario request at a time
+        this._scenarioAbortController?.abort();
+        const abortController = new AbortController();
+        this._scenarioAbortController = abortController;
+
         this._view?.webview.postMessage({ command: 'scenarioGenerating' });
 
         try {
@@ -295,13 +382,20 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
                     packageName,
                     content
                 },
-                options: {
-                    testFramework: this._settings.getTestFramework(),
-                    mockingFramework: this._settings.getMockingFramework(),
-                    coverageTarget: this._settings.getCoverageTarget(),
-                    includeEdgeCases: this._settings.includeEdgeCases()
-                },
+                options: await this._getGenerationOptions(),
                 selectedMethods: selectedMethods
+            }, abortController.signal, {
+                bypass: bypassCache,
+                onHit: () => {
+                    vscode.window.showInformationMessage(
+                        `Using cached scenarios for ${fileName}, no server request was made.`,
+                        'Regenerate'
+                    ).then((action) => {
+                        if (action === 'Regenerate') {
+                            this._generateScenarios(filePath, selectedMethods, true);
+                        }
+                    });
+                }
             });
 
             this._view?.webview.postMessage({
@@ -309,85 +403,36 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
                 scenarios: response.scenarios
             });
         } catch (error) {
+            if (error instanceof RequestCancelledError) {
+                // A newer request replaced this one, leave its UI state alone
+                if (this._scenarioAbortController === abortController) {
+                    this._view?.webview.postMessage({ command: 'scenarioCancelled' });
+                }
+                return;
+            }
             const message = getUserFriendlyErrorMessage(error);
             // Reset button state
             this._view?.webview.postMessage({
                 command: 'scenarioError'
             });
             // Show VS Code notification
-            vscode.window.showErrorMessage(`Scenario generation failed: ${message}`);
+            this._reporter.showError(`Scenario generation failed: ${message}`, error);
+        } finally {
+            if (this._scenarioAbortController === abortController) {
+                this._scenarioAbortController = undefined;
+            }
         }
     }
 
-    /**
-     * Validates test class name to prevent command injection
-     * Only allows valid Java class name characters
-     */
-    private _validateTestClassName(name: string): boolean {
-        // Java class names: start with letter or underscore, followed by letters, digits, underscores, or $
-        // Also allow dots for fully qualified names and * for wildcards
-        const validPattern = /^[a-zA-Z_$][a-zA-Z0-9_$]*(\.[a-zA-Z_$][a-zA-Z0-9_$]*)*\*?$/;
-        return validPattern.test(name) && name.length <= 256;
-    }
-
     private async _runTest(testClassName: string): Promise<void> {
-        this._view?.webview.postMessage({ command: 'testRunning' });
-
-        try {
-            // Validate test class name to prevent command injection
-            if (!this._validateTestClassName(testClassName)) {
-                throw new Error('Invalid test class name. Only valid Java class names are allowed.');
-            }
-
-            const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-            if (!workspaceFolder) {
-                throw new Error('No workspace folder found');
-            }
-
-            const buildTool = await this._detectBuildTool(workspaceFolder.uri);
-            let command: string;
-            let args: string[];
-
-            if (buildTool === 'gradle') {
-                if (process.platform === 'win32') {
-                    command = 'gradlew.bat';
-                } else {
-                    command = './gradlew';
-                }
-                args = ['test', '--tests', testClassName, '--info'];
-            } else if (buildTool === 'maven') {
-                command = 'mvn';
-                args = ['test', `-Dtest=${testClassName}`];
-            } else {
-                throw new Error('No Maven or Gradle build file found');
-            }
-
-            const result = await this._executeCommand(command, args, workspaceFolder.uri.fsPath);
-
-            const success = this._parseTestResult(result, buildTool);
-
-            this._view?.webview.postMessage({
-                command: 'testResult',
-                success: success,
-                details: this._formatTestOutput(result)
-            });
-
-            if (success) {
-                vscode.window.showInformationMessage('All tests passed!');
-            } else {
-                vscode.window.showWarningMessage('Some tests failed. Check the results below.');
-            }
-        } catch (error) {
-            const message = error instanceof Error ? error.message : 'Unknown error';
-            this._view?.webview.postMessage({
-                command: 'testError',
-                error: message
-            });
-            vscode.window.showErrorMessage(`Test execution failed: ${message}`);
-        }
+        await this._runTestsAndReport(testClassName);
     }
 
     private async _runAllTests(): Promise<void> {
+        await this._runTestsAndReport();
+    }
+
+    private async _runTestsAndReport(testClassName?: string): Promise<TestRunResult | undefined> {
         this._view?.webview.postMessage({ command: 'testRunning' });
 
         try {
@@ -396,39 +441,21 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
                 throw new Error('No workspace folder found');
             }
 
-            const buildTool = await this._detectBuildTool(workspaceFolder.uri);
-            let command: string;
-            let args: string[];
-
-            if (buildTool === 'gradle') {
-                if (process.platform === 'win32') {
-                    command = 'gradlew.bat';
-                } else {
-                    command = './gradlew';
-                }
-                args = ['test', '--info'];
-            } else if (buildTool === 'maven') {
-                command = 'mvn';
-                args = ['test'];
-            } else {
-                throw new Error('No Maven or Gradle build file found');
-            }
-
-            const result = await this._executeCommand(command, args, workspaceFolder.uri.fsPath);
-
-            const success = this._parseTestResult(result, buildTool);
+            const result = await this._testRunner.runTests(workspaceFolder, testClassName);
 
             this._view?.webview.postMessage({
                 command: 'testResult',
-                success: success,
-                details: this._formatTestOutput(result)
+                success: result.success,
+                details: result.details
             });
 
-            if (success) {
+            if (result.success) {
                 vscode.window.showInformationMessage('All tests passed!');
             } else {
                 vscode.window.showWarningMessage('Some tests failed. Check the results below.');
             }
+
+            return result;
         } catch (error) {
             const message = error instanceof Error ? error.message : 'Unknown error';
             this._view?.webview.postMessage({
@@ -436,130 +463,165 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
                 error: message
             });
             vscode.window.showErrorMessage(`Test execution failed: ${message}`);
+            return undefined;
         }
     }
 
-    private async _detectBuildTool(workspaceUri: vscode.Uri): Promise<'maven' | 'gradle' | null> {
-        const gradleFiles = await vscode.workspace.findFiles(
-            new vscode.RelativePattern(workspaceUri, '{build.gradle,build.gradle.kts}'),
-            null,
-            1
-        );
-        if (gradleFiles.length > 0) {
-            return 'gradle';
+    /**
+     * Self-healing loop: sends the failing test, its source and the build
+     * output to the server for a corrected version, saves it and re-runs the
+     * test until it passes or the iteration limit is reached
+     */
+    private async _fixFailingTests(filePath: string, testClassName: string): Promise<void> {
+        if (!filePath) {
+            vscode.window.showWarningMessage('Select the source Java file of the test first');
+            return;
         }
 
-        const mavenFiles = await vscode.workspace.findFiles(
-            new vscode.RelativePattern(workspaceUri, 'pom.xml'),
-            null,
-            1
-        );
-        if (mavenFiles.length > 0) {
-            return 'maven';
+        if (!this._apiClient.capabilities.has(ServerFeature.SELF_HEALING)) {
+            vscode.window.showWarningMessage('The connected server does not support fixing failing tests');
+            return;
         }
 
-        return null;
-    }
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        if (!workspaceFolder) {
+            vscode.window.showErrorMessage('No workspace folder found');
+            return;
+        }
 
-    /**
-     * Executes a command safely using spawn (no shell) to prevent command injection
-     */
-    private _executeCommand(command: string, args: string[], cwd: string): Promise<string> {
-        return new Promise((resolve, reject) => {
-            // Use spawn with shell: false (default) to prevent command injection
-            const child = spawn(command, args, {
-                cwd,
-                shell: false,  // Explicitly disable shell to prevent injection
-                env: { ...process.env },  // Inherit environment but don't expose sensitive vars
-                windowsHide: true
-            });
+        this._healingAbortController?.abort();
+        const abortController = new AbortController();
+        this._healingAbortController = abortController;
 
-            let stdout = '';
-            let stderr = '';
+        const fileManager = new FileManager();
+        const pathResolver = new PathResolver();
+        const maxIterations = this._settings.getSelfHealingMaxIterations();
 
-            child.stdout.on('data', (data: Buffer) => {
-                stdout += data.toString();
-            });
+        this._view?.webview.postMessage({ command: 'healingStarted', maxIterations });
 
-            child.stderr.on('data', (data: Buffer) => {
-                stderr += data.toString();
-            });
+        // Every write of the run is undone together
+        let transaction: GenerationTransaction | undefined;
 
-            child.on('error', (error: Error) => {
-                reject(error);
-            });
+        try {
+            const sourceUri = vscode.Uri.file(filePath);
+            const testUri = pathResolver.resolveTestPath(sourceUri);
 
-            child.on('close', (code: number) => {
-                const output = stdout + '\n' + stderr;
-                // Even with non-zero exit code, we might have useful test output
-                if (code !== 0 && !stdout && !stderr) {
-                    reject(new Error(`Command exited with code ${code}`));
-                } else {
-                    resolve(output);
-                }
-            });
+            if (!(await fileManager.fileExists(testUri))) {
+                throw new Error(`Test file not found: ${vscode.workspace.asRelativePath(testUri)}`);
+            }
 
-            // Set timeout to prevent hanging processes (5 minutes)
-            setTimeout(() => {
-                child.kill('SIGTERM');
-                reject(new Error('Command timed out after 5 minutes'));
-            }, 5 * 60 * 1000);
-        });
-    }
+            const sourceContent = await fileManager.readFile(sourceUri);
+            const originalTestContent = await fileManager.readFile(testUri);
+            transaction = this._journal.begin(`Fix failing tests in ${path.basename(testUri.fsPath)}`);
+            const packageName = pathResolver.extractPackageFromContent(sourceContent);
+
+            let run = await this._testRunner.runTests(workspaceFolder, testClassName);
+            this._postHealingIteration(0, maxIterations, run);
+
+            let iteration = 0;
+            let selfHealingGuide: string | undefined;
+
+            while (!run.success && iteration < maxIterations) {
+                iteration++;
+
+                const response = await this._apiClient.fixTest({
+                    sourceFile: {
+                        fileName: path.basename(sourceUri.fsPath),
+                        packageName,
+                        content: sourceContent
+                    },
+                    testFile: {
+                        fileName: path.basename(testUri.fsPath),
+                        packageName,
+                        content: await fileManager.readFile(testUri)
+                    },
+                    failureOutput: run.output.slice(-SidebarProvider.MAX_FAILURE_OUTPUT),
+                    options: await this._getGenerationOptions(),
+                    iteration,
+                    ...(selfHealingGuide && { selfHealingGuide })
+                }, abortController.signal);
+
+                await this._usageTracker.record(response.metadata, sourceUri, 'fix');
+                selfHealingGuide = response.analysis?.selfHealingGuide || selfHealingGuide;
+
+                await transaction.snapshot(testUri);
+                const saveResult = await fileManager.saveTestFile(testUri, response.testFile.content);
+                if (!saveResult.success) {
+                    throw new Error(`Failed to save test file: ${saveResult.error}`);
+                }
 
-    private _parseTestResult(output: string, buildTool: 'maven' | 'gradle' | null): boolean {
-        const lowerOutput = output.toLowerCase();
+                if (abortController.signal.aborted) {
+                    throw new RequestCancelledError();
+                }
 
-        if (buildTool === 'gradle') {
-            // Gradle success indicators
-            if (lowerOutput.includes('build successful') ||
-                (lowerOutput.includes('test') && !lowerOutput.includes('failed') && !lowerOutput.includes('failure'))) {
-                return true;
+                run = await this._testRunner.runTests(workspaceFolder, testClassName);
+                this._postHealingIteration(iteration, maxIterations, run, selfHealingGuide);
             }
-            return !lowerOutput.includes('build failed') &&
-                   !lowerOutput.includes('test failed') &&
-                   !lowerOutput.includes('failures:');
-        } else if (buildTool === 'maven') {
-            // Maven success indicators
-            if (lowerOutput.includes('build success')) {
-                return true;
-            }
-            return !lowerOutput.includes('build failure') &&
-                   !lowerOutput.includes('tests run:') &&
-                   !lowerOutput.includes('failures:');
-        }
 
-        return !lowerOutput.includes('fail') && !lowerOutput.includes('error');
-    }
+            this._view?.webview.postMessage({
+                command: 'healingDone',
+                success: run.success,
+                iterations: iteration
+            });
 
-    private _formatTestOutput(output: string): string {
-        // Extract relevant lines from test output
-        const lines = output.split('\n');
-        const relevantLines: string[] = [];
-
-        for (const line of lines) {
-            const lowerLine = line.toLowerCase();
-            // Include test-related lines
-            if (lowerLine.includes('test') ||
-                lowerLine.includes('passed') ||
-                lowerLine.includes('failed') ||
-                lowerLine.includes('success') ||
-                lowerLine.includes('failure') ||
-                lowerLine.includes('error') ||
-                lowerLine.includes('build') ||
-                lowerLine.includes('running') ||
-                line.trim().startsWith('>')) {
-                relevantLines.push(line);
+            if (run.success) {
+                vscode.window.showInformationMessage(
+                    iteration === 0
+                        ? 'Tests already pass, nothing to fix.'
+                        : `Tests fixed after ${iteration} iteration(s).`
+                );
+            } else {
+                const action = await vscode.window.showWarningMessage(
+                    `Tests still failing after ${iteration} iteration(s).`,
+                    'Keep Changes',
+                    'Restore Original'
+                );
+                if (action === 'Restore Original') {
+                    await transaction.snapshot(testUri);
+                    await fileManager.saveTestFile(testUri, originalTestContent);
+                }
+            }
+        } catch (error) {
+            if (error instanceof RequestCancelledError) {
+                this._view?.webview.postMessage({ command: 'healingCancelled' });
+                return;
+            }
+            const message = getUserFriendlyErrorMessage(error);
+            this._view?.webview.postMessage({ command: 'healingError' });
+            this._reporter.showError(`Fixing failing tests failed: ${message}`, error);
+        } finally {
+            await transaction?.commit();
+            if (this._healingAbortController === abortController) {
+                this._healingAbortController = undefined;
             }
         }
+    }
 
-        // Limit output length
-        const maxLines = 30;
-        if (relevantLines.length > maxLines) {
-            return relevantLines.slice(0, maxLines).join('\n') + '\n... (truncated)';
-        }
+    private _postHealingIteration(
+        iteration: number,
+        maxIterations: number,
+        run: TestRunResult,
+        selfHealingGuide?: string
+    ): void {
+        this._view?.webview.postMessage({
+            command: 'healingIteration',
+            iteration,
+            maxIterations,
+            success: run.success,
+            details: run.details,
+            guide: selfHealingGuide
+        });
+    }
 
-        return relevantLines.join('\n') || output.substring(0, 1000);
+    private async _getGenerationOptions(): Promise<GenerationOptions> {
+        const model = await this._modelManager.getModelForRequest();
+        return {
+            testFramework: this._settings.getTestFramework(),
+            mockingFramework: this._settings.getMockingFramework(),
+            coverageTarget: this._settings.getCoverageTarget(),
+            includeEdgeCases: this._settings.includeEdgeCases(),
+            ...(model && { model })
+        };
     }
 
     public refresh(): void {
@@ -616,6 +678,11 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
             <input type="password" id="apiKey" placeholder="Enter your API key">
         </div>
 
+        <div class="input-group hidden" id="modelGroup">
+            <label for="model">Model</label>
+            <select id="model"></select>
+        </div>
+
         <button class="btn btn-primary" id="btnSave">
             Save Settings
         </button>
@@ -704,6 +771,11 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
             <span class="spinner hidden" id="scenarioSpinner"></span>
         </button>
 
+        <button class="btn btn-secondary hidden" id="btnCancelScenarios">
+            <span class="icon">&#10005;</span>
+            Cancel
+        </button>
+
         <!-- Scenario Editor (hidden until scenarios are generated) -->
         <div id="scenarioSection" class="hidden">
             <div class="scenario-header">
@@ -757,6 +829,22 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
         <div id="testResultArea" class="hidden">
             <div class="test-result" id="testResult"></div>
         </div>
+
+        <!-- Self-Healing (shown after a failed run) -->
+        <button class="btn btn-success hidden" id="btnFixTests">
+            <span class="icon">&#10010;</span>
+            <span id="fixTestsText">Fix Failing Tests</span>
+            <span class="spinner hidden" id="fixTestsSpinner"></span>
+        </button>
+
+        <button class="btn btn-secondary hidden" id="btnStopHealing">
+            <span class="icon">&#10005;</span>
+            Stop
+        </button>
+
+        <div id="healingLogArea" class="hidden">
+            <div class="test-result" id="healingLog"></div>
+        </div>
     </div>
 
     <!-- Message Area -->
@@ -770,6 +858,8 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
         const apiKeyInput = document.getElementById('apiKey');
         const testFrameworkSelect = document.getElementById('testFramework');
         const mockingFrameworkSelect = document.getElementById('mockingFramework');
+        const modelGroup = document.getElementById('modelGroup');
+        const modelSelect = document.getElementById('model');
         const btnSave = document.getElementById('btnSave');
         const btnTestConnection = document.getElementById('btnTestConnection');
         const btnOpenSettings = document.getElementById('btnOpenSettings');
@@ -790,6 +880,7 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
         const btnGenerateScenarios = document.getElementById('btnGenerateScenarios');
         const generateScenariosText = document.getElementById('generateScenariosText');
         const scenarioSpinner = document.getElementById('scenarioSpinner');
+        const btnCancelScenarios = document.getElementById('btnCancelScenarios');
         const scenarioSection = document.getElementById('scenarioSection');
         const scenarioEditor = document.getElementById('scenarioEditor');
         const scenarioStatus = document.getElementById('scenarioStatus');
@@ -812,6 +903,14 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
         const testResultArea = document.getElementById('testResultArea');
         const testResult = document.getElementById('testResult');
 
+        // Self-healing elements
+        const btnFixTests = document.getElementById('btnFixTests');
+        const fixTestsText = document.getElementById('fixTestsText');
+        const fixTestsSpinner = document.getElementById('fixTestsSpinner');
+        const btnStopHealing = document.getElementById('btnStopHealing');
+        const healingLogArea = document.getElementById('healingLogArea');
+        const healingLog = document.getElementById('healingLog');
+
         // State
         let currentFilePath = null;
         let currentTestClassName = null;
@@ -819,11 +918,18 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
         let currentScenarios = '';
         let availableMethods = [];
         let selectedMethods = [];
+        // Server capabilities, updated after each health check
+        let supportsScenarios = true;
+        let supportsSelfHealing = false;
 
         // Request initial settings
         vscode.postMessage({ command: 'getSettings' });
 
         // Event Listeners
+        modelSelect.addEventListener('change', () => {
+            vscode.postMessage({ command: 'selectModel', model: modelSelect.value });
+        });
+
         btnSave.addEventListener('click', () => {
             vscode.postMessage({
                 command: 'saveSettings',
@@ -894,12 +1000,28 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
             availableMethods.forEach((method, index) => {
                 const checkbox = document.getElementById('method_' + index);
                 if (checkbox && checkbox.checked) {
-                    selectedMethods.push(method.name);
+                    selectedMethods.push(method.signature);
                 }
             });
 
             // Enable/disable generate scenarios based on selection
             btnGenerateScenarios.disabled = selectedMethods.length === 0;
+
+            // Without scenario support tests are generated directly
+            if (!supportsScenarios) {
+                btnGenerateSelected.disabled = !currentFilePath || selectedMethods.length === 0;
+            }
+        }
+
+        function applyCapabilities() {
+            btnGenerateScenarios.classList.toggle('hidden', !supportsScenarios);
+            if (!supportsScenarios) {
+                scenarioSection.classList.add('hidden');
+            }
+            if (!supportsSelfHealing) {
+                btnFixTests.classList.add('hidden');
+            }
+            updateSelectedMethods();
         }
 
         // Select all methods
@@ -931,6 +1053,11 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
             }
         });
 
+        // Cancel in-flight scenario generation
+        btnCancelScenarios.addEventListener('click', () => {
+            vscode.postMessage({ command: 'cancelScenarios' });
+        });
+
         // Approve scenarios
         btnApproveScenarios.addEventListener('click', () => {
             scenariosApproved = true;
@@ -954,7 +1081,8 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
                 btnGenerateSelected.disabled = true;
                 vscode.postMessage({
                     command: 'generateScenarios',
-                    filePath: currentFilePath
+                    filePath: currentFilePath,
+                    selectedMethods: selectedMethods
                 });
             }
         });
@@ -972,11 +1100,12 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
 
         // Generate test for selected file (with approved scenarios)
         btnGenerateSelected.addEventListener('click', () => {
-            if (currentFilePath && scenariosApproved) {
+            if (currentFilePath && (scenariosApproved || !supportsScenarios)) {
                 vscode.postMessage({
                     command: 'generateTestForFile',
                     filePath: currentFilePath,
-                    scenarios: scenarioEditor.value
+                    scenarios: supportsScenarios ? scenarioEditor.value : undefined,
+                    selectedMethods: selectedMethods
                 });
             }
         });
@@ -1001,6 +1130,24 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
             });
         });
 
+        // Fix failing tests (self-healing loop)
+        btnFixTests.addEventListener('click', () => {
+            const testClassName = testClassNameInput.value.trim();
+            if (!currentFilePath || !testClassName) {
+                showMessage('warning', 'Select the source file and enter the test class name');
+                return;
+            }
+            vscode.postMessage({
+                command: 'fixFailingTests',
+                filePath: currentFilePath,
+                testClassName: testClassName
+            });
+        });
+
+        btnStopHealing.addEventListener('click', () => {
+            vscode.postMessage({ command: 'cancelHealing' });
+        });
+
         // Handle messages from extension
         window.addEventListener('message', event => {
             const message = event.data;
@@ -1019,6 +1166,23 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
                     }
                     break;
 
+                case 'modelsLoaded':
+                    modelGroup.classList.toggle('hidden', !message.supported);
+                    modelSelect.innerHTML = '';
+                    modelSelect.appendChild(new Option('Server default', ''));
+                    message.models.forEach(model => {
+                        modelSelect.appendChild(new Option(model.default ? model.label + ' (default)' : model.label, model.id));
+                    });
+                    // A remembered model the server no longer offers falls back to the default
+                    modelSelect.value = message.models.some(m => m.id === message.selected) ? message.selected : '';
+                    break;
+
+                case 'capabilities':
+                    supportsScenarios = message.scenarios;
+                    supportsSelfHealing = message.selfHealing;
+                    applyCapabilities();
+                    break;
+
                 case 'settingsSaved':
                     if (message.success) {
                         showMessage('success', 'Settings saved!');
@@ -1097,6 +1261,7 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
                 case 'scenarioGenerating':
                     generateScenariosText.textContent = 'Generating...';
                     scenarioSpinner.classList.remove('hidden');
+                    btnCancelScenarios.classList.remove('hidden');
                     btnGenerateScenarios.disabled = true;
                     btnRegenerateScenarios.disabled = true;
                     break;
@@ -1104,6 +1269,7 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
                 case 'scenarioGenerated':
                     generateScenariosText.textContent = 'Generate Scenarios';
                     scenarioSpinner.classList.add('hidden');
+                    btnCancelScenarios.classList.add('hidden');
                     btnGenerateScenarios.disabled = false;
                     btnRegenerateScenarios.disabled = false;
 
@@ -1122,11 +1288,21 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
                 case 'scenarioError':
                     generateScenariosText.textContent = 'Generate Scenarios';
                     scenarioSpinner.classList.add('hidden');
+                    btnCancelScenarios.classList.add('hidden');
                     btnGenerateScenarios.disabled = false;
                     btnRegenerateScenarios.disabled = false;
                     // Error is shown as VS Code notification, just reset button state
                     break;
 
+                case 'scenarioCancelled':
+                    generateScenariosText.textContent = 'Generate Scenarios';
+                    scenarioSpinner.classList.add('hidden');
+                    btnCancelScenarios.classList.add('hidden');
+                    btnGenerateScenarios.disabled = selectedMethods.length === 0;
+                    btnRegenerateScenarios.disabled = false;
+                    showMessage('warning', 'Scenario generation cancelled.');
+                    break;
+
                 case 'testRunning':
                     runTestText.textContent = 'Running...';
                     runTestSpinner.classList.remove('hidden');
@@ -1153,6 +1329,9 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
 
                     if (isSuccess) {
                         showMessage('success', 'All tests passed!');
+                        btnFixTests.classList.add('hidden');
+                    } else if (currentFilePath && supportsSelfHealing) {
+                        btnFixTests.classList.remove('hidden');
                     }
                     break;
 
@@ -1162,9 +1341,68 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
                     btnRunTest.disabled = false;
                     btnRunAllTests.disabled = false;
                     break;
+
+                case 'healingStarted':
+                    fixTestsText.textContent = 'Fixing...';
+                    fixTestsSpinner.classList.remove('hidden');
+                    btnFixTests.disabled = true;
+                    btnRunTest.disabled = true;
+                    btnRunAllTests.disabled = true;
+                    btnStopHealing.classList.remove('hidden');
+                    testResultArea.classList.add('hidden');
+                    healingLog.innerHTML = '';
+                    healingLogArea.classList.remove('hidden');
+                    break;
+
+                case 'healingIteration': {
+                    const passed = message.success;
+                    const label = message.iteration === 0
+                        ? 'Initial run'
+                        : 'Iteration ' + message.iteration + '/' + message.maxIterations;
+                    healingLog.className = 'test-result ' + (passed ? 'success' : 'failure');
+                    healingLog.innerHTML +=
+                        '<div class="test-result-header ' + (passed ? 'success' : 'failure') + '">' +
+                        (passed ? '&#10004; ' : '&#10008; ') + escapeHtml(label) +
+                        (passed ? ': Tests Passed' : ': Tests Failed') +
+                        '</div>' +
+                        (message.guide ? '<div class="test-result-details">' + escapeHtml(message.guide) + '</div>' : '') +
+                        (passed ? '' : '<div class="test-result-details">' + escapeHtml(message.details || '') + '</div>');
+                    break;
+                }
+
+                case 'healingDone':
+                    resetHealingState();
+                    if (message.success) {
+                        btnFixTests.classList.add('hidden');
+                        showMessage('success', message.iterations === 0
+                            ? 'Tests already pass.'
+                            : 'Tests fixed after ' + message.iterations + ' iteration(s).');
+                    } else {
+                        showMessage('warning', 'Tests still failing after ' + message.iterations + ' iteration(s).');
+                    }
+                    break;
+
+                case 'healingCancelled':
+                    resetHealingState();
+                    showMessage('warning', 'Fixing failing tests was stopped.');
+                    break;
+
+                case 'healingError':
+                    // Error is shown as VS Code notification, just reset button state
+                    resetHealingState();
+                    break;
             }
         });
 
+        function resetHealingState() {
+            fixTestsText.textContent = 'Fix Failing Tests';
+            fixTestsSpinner.classList.add('hidden');
+            btnFixTests.disabled = false;
+            btnRunTest.disabled = false;
+            btnRunAllTests.disabled = false;
+            btnStopHealing.classList.add('hidden');
+        }
+
         function escapeHtml(text) {
             const div = document.createElement('div');
             div.textContent = text;
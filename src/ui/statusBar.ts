@@ -8,6 +8,7 @@ export enum StatusBarState {
     Connecting = 'connecting',
     Generating = 'generating',
     Analyzing = 'analyzing',
+    Retrying = 'retrying',
     Success = 'success',
     Error = 'error',
     Disconnected = 'disconnected'
@@ -20,6 +21,7 @@ export class StatusBarManager {
     private statusBarItem: vscode.StatusBarItem;
     private currentState: StatusBarState = StatusBarState.Ready;
     private successTimeout?: NodeJS.Timeout;
+    private stateBeforeRetry: StatusBarState = StatusBarState.Ready;
 
     constructor(context: vscode.ExtensionContext) {
         this.statusBarItem = vscode.window.createStatusBarItem(
@@ -81,6 +83,47 @@ export class StatusBarManager {
         this.statusBarItem.color = undefined;
     }
 
+    /**
+     * Sets the status bar to retrying state until the retry wait is over,
+     * then returns to the state the request was shown in
+     */
+    public setRetrying(attempt: number, maxAttempts: number, delay: number, reason?: string): void {
+        this.clearTimeout();
+        if (this.currentState !== StatusBarState.Retrying) {
+            this.stateBeforeRetry = this.currentState;
+        }
+        this.currentState = StatusBarState.Retrying;
+        this.statusBarItem.text = `$(sync~spin) Retrying (${attempt}/${maxAttempts})...`;
+        this.statusBarItem.tooltip = `${reason || 'Request failed'}. Attempt ${attempt} of ${maxAttempts} in ${Math.ceil(delay / 1000)}s`;
+        this.statusBarItem.backgroundColor = new vscode.ThemeColor(
+            'statusBarItem.warningBackground'
+        );
+        this.statusBarItem.color = undefined;
+
+        this.successTimeout = setTimeout(() => {
+            this.restoreState(this.stateBeforeRetry);
+        }, delay);
+    }
+
+    /**
+     * Returns to a request state after a retry wait
+     */
+    private restoreState(state: StatusBarState): void {
+        switch (state) {
+            case StatusBarState.Connecting:
+                this.setConnecting();
+                break;
+            case StatusBarState.Generating:
+                this.setGenerating();
+                break;
+            case StatusBarState.Analyzing:
+                this.setAnalyzing();
+                break;
+            default:
+                this.setReady();
+        }
+    }
+
     /**
      * Sets the status bar to success state
      */
@@ -0,0 +1,115 @@
+import * as vscode from 'vscode';
+
+/**
+ * A read-only preview document that is filled while a test is streamed
+ */
+export interface StreamPreview {
+    append(content: string): void;
+    close(): Promise<void>;
+}
+
+/**
+ * Provides read-only preview documents for streamed test generation
+ */
+export class StreamPreviewProvider implements vscode.TextDocumentContentProvider {
+    public static readonly scheme = 'java-test-preview';
+
+    // Minimum delay between document refreshes while chunks arrive
+    private static readonly REFRESH_INTERVAL = 100;
+
+    private contents = new Map<string, string>();
+    private refreshTimers = new Map<string, NodeJS.Timeout>();
+    private onDidChangeEmitter = new vscode.EventEmitter<vscode.Uri>();
+
+    public readonly onDidChange = this.onDidChangeEmitter.event;
+
+    public provideTextDocumentContent(uri: vscode.Uri): string {
+        return this.contents.get(uri.toString()) || '';
+    }
+
+    /**
+     * Opens a new preview editor beside the current one
+     */
+    public open(fileName: string): StreamPreview {
+        const uri = vscode.Uri.from({
+            scheme: StreamPreviewProvider.scheme,
+            path: `/${fileName}`,
+            query: Date.now().toString()
+        });
+        const key = uri.toString();
+        this.contents.set(key, '');
+
+        const shown = vscode.window.showTextDocument(uri, {
+            viewColumn: vscode.ViewColumn.Beside,
+            preserveFocus: true,
+            preview: true
+        }).then(
+            () => undefined,
+            (error) => console.warn('[StreamPreview] Failed to open preview:', error)
+        );
+
+        return {
+            append: (content: string) => {
+                this.contents.set(key, (this.contents.get(key) || '') + content);
+                this.scheduleRefresh(uri);
+            },
+            close: async () => {
+                await shown;
+                this.clearRefresh(key);
+                await this.closeTabs(uri);
+                this.contents.delete(key);
+            }
+        };
+    }
+
+    /**
+     * Fires a change event at most once per refresh interval
+     */
+    private scheduleRefresh(uri: vscode.Uri): void {
+        const key = uri.toString();
+        if (this.refreshTimers.has(key)) {
+            return;
+        }
+
+        this.refreshTimers.set(key, setTimeout(() => {
+            this.refreshTimers.delete(key);
+            this.onDidChangeEmitter.fire(uri);
+        }, StreamPreviewProvider.REFRESH_INTERVAL));
+    }
+
+    private clearRefresh(key: string): void {
+        const timer = this.refreshTimers.get(key);
+        if (timer) {
+            clearTimeout(timer);
+            this.refreshTimers.delete(key);
+        }
+    }
+
+    /**
+     * Closes every editor tab showing the given preview
+     */
+    private async closeTabs(uri: vscode.Uri): Promise<void> {
+        const tabs = vscode.window.tabGroups.all
+            .flatMap(group => group.tabs)
+            .filter(tab =>
+                tab.input instanceof vscode.TabInputText &&
+                tab.input.uri.toString() === uri.toString()
+            );
+
+        if (tabs.length > 0) {
+            await vscode.window.tabGroups.close(tabs);
+        }
+    }
+
+    /**
+     * Disposes of resources
+     */
+    public dispose(): void {
+        for (const timer of this.refreshTimers.values()) {
+            clearTimeout(timer);
+        }
+        this.refreshTimers.clear();
+        this.contents.clear();
+        this.onDidChangeEmitter.dispose();
+    }
+}
@@ -0,0 +1,78 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { SettingsManager } from '../config/settings';
+import { TestFileWatcher } from '../services/testFileWatcher';
+import { extractMethods, findTestsForMethod } from '../services/javaParser';
+
+/**
+ * Shows "Go to test" above each public method that a test already covers
+ * and "Generate test" above the others
+ */
+export class TestCodeLensProvider implements vscode.CodeLensProvider {
+    public static readonly selector: vscode.DocumentSelector = { language: 'java', scheme: 'file' };
+
+    private testFileWatcher = new TestFileWatcher();
+    private onDidChangeCodeLensesEmitter = new vscode.EventEmitter<void>();
+    private disposables: vscode.Disposable[] = [];
+
+    public readonly onDidChangeCodeLenses = this.onDidChangeCodeLensesEmitter.event;
+
+    constructor(private readonly settings: SettingsManager) {
+        this.disposables.push(
+            this.testFileWatcher,
+            this.testFileWatcher.onDidChange(() => this.onDidChangeCodeLensesEmitter.fire()),
+            vscode.workspace.onDidChangeConfiguration((e) => {
+                if (e.affectsConfiguration('javaTestGenerator.showCodeLens')) {
+                    this.onDidChangeCodeLensesEmitter.fire();
+                }
+            })
+        );
+    }
+
+    public async provideCodeLenses(document: vscode.TextDocument): Promise<vscode.CodeLens[]> {
+        if (!this.settings.shouldShowCodeLens()) {
+            return [];
+        }
+
+        const methods = extractMethods(document.getText()).filter(m => m.modifiers.includes('public'));
+        if (methods.length === 0) {
+            return [];
+        }
+
+        const sourceTestClass = await this.testFileWatcher.readTestClass(document.uri);
+        if (!sourceTestClass) {
+            return [];
+        }
+        const { testUri, testClass } = sourceTestClass;
+
+        return methods.map(method => {
+            const range = new vscode.Range(method.startLine - 1, 0, method.startLine - 1, 0);
+            const tests = findTestsForMethod(testClass, method.name);
+
+            if (tests.length > 0) {
+                return new vscode.CodeLens(range, {
+                    title: tests.length === 1 ? 'Go to test' : `Go to test (${tests.length})`,
+                    tooltip: `${path.basename(testUri.fsPath)}: ${tests.map(t => t.name).join(', ')}`,
+                    command: 'vscode.open',
+                    arguments: [
+                        testUri,
+                        { selection: new vscode.Range(tests[0].startLine - 1, 0, tests[0].startLine - 1, 0) }
+                    ]
+                });
+            }
+
+            return new vscode.CodeLens(range, {
+                title: 'Generate test',
+                tooltip: `Generate a unit test for ${method.name}`,
+                command: 'javaTestGenerator.generateTest',
+                arguments: [document.uri, undefined, [method.signature]]
+            });
+        });
+    }
+
+    public dispose(): void {
+        this.onDidChangeCodeLensesEmitter.dispose();
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+    }
+}
@@ -0,0 +1,215 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import {
+    extractTestMethods,
+    mergeImports,
+    mergeTestMethods,
+    removeTestMethods
+} from '../services/javaParser';
+
+/**
+ * How the reviewed content is written: merged into the existing file,
+ * replacing it, or replacing it after creating a backup
+ */
+export type ReviewMode = 'merge' | 'overwrite' | 'backup';
+
+/**
+ * Content accepted in a review
+ */
+export interface ReviewResult {
+    mode: ReviewMode;
+    content: string;
+    // Test methods the user accepted
+    acceptedMethods: string[];
+}
+
+type MethodItem = vscode.QuickPickItem & { method: string };
+
+const MODE_LABELS: Record<ReviewMode, string> = {
+    merge: 'Merge',
+    overwrite: 'Overwrite',
+    backup: 'Overwrite with Backup'
+};
+
+const MODE_BUTTONS: Array<vscode.QuickInputButton & { mode: ReviewMode }> = [
+    { mode: 'merge', iconPath: new vscode.ThemeIcon('git-merge'), tooltip: 'Merge new test methods into the existing file' },
+    { mode: 'overwrite', iconPath: new vscode.ThemeIcon('replace-all'), tooltip: 'Overwrite the existing file' },
+    { mode: 'backup', iconPath: new vscode.ThemeIcon('archive'), tooltip: 'Create a backup, then overwrite the existing file' }
+];
+
+/**
+ * Shows generated tests in a diff editor against the current test file
+ * and lets the user accept or reject each test method before saving
+ */
+export class TestReviewProvider implements vscode.TextDocumentContentProvider {
+    public static readonly scheme = 'java-test-review';
+
+    private contents = new Map<string, string>();
+    private onDidChangeEmitter = new vscode.EventEmitter<vscode.Uri>();
+
+    public readonly onDidChange = this.onDidChangeEmitter.event;
+
+    public provideTextDocumentContent(uri: vscode.Uri): string {
+        return this.contents.get(uri.toString()) || '';
+    }
+
+    /**
+     * Opens the review for a generated test
+     * @param existingContent content of the current test file, undefined for new files
+     * @param targetedTests generated test methods for the selected source
+     * methods (see findTestsForMethods), the only ones offered when merging
+     * @returns the content to save, undefined if the user cancelled
+     */
+    public async review(
+        testPath: vscode.Uri,
+        existingContent: string | undefined,
+        generatedContent: string,
+        targetedTests?: string[],
+        initialMode: ReviewMode = existingContent === undefined ? 'overwrite' : 'merge'
+    ): Promise<ReviewResult | undefined> {
+        const fileName = path.basename(testPath.fsPath);
+        const proposedUri = vscode.Uri.from({
+            scheme: TestReviewProvider.scheme,
+            path: testPath.path,
+            query: `proposed-${Date.now()}`
+        });
+        const currentUri = existingContent === undefined
+            ? proposedUri.with({ query: `empty-${Date.now()}` })
+            : testPath;
+
+        const generatedMethods = extractTestMethods(generatedContent);
+        const existingMethods = existingContent === undefined ? [] : extractTestMethods(existingContent);
+
+        let mode = initialMode;
+        const quickPick = vscode.window.createQuickPick<MethodItem>();
+        quickPick.canSelectMany = true;
+        quickPick.ignoreFocusOut = true;
+        quickPick.placeholder = 'Uncheck the test methods to leave out, then press Enter to apply';
+        quickPick.buttons = existingContent === undefined ? [] : MODE_BUTTONS;
+
+        const getContent = () => this.buildContent(
+            mode,
+            existingContent,
+            generatedContent,
+            generatedMethods,
+            quickPick.selectedItems.map(item => item.method)
+        );
+
+        const update = () => {
+            this.contents.set(proposedUri.toString(), getContent());
+            this.onDidChangeEmitter.fire(proposedUri);
+            quickPick.title = `Review ${fileName}: ${existingContent === undefined ? 'New File' : MODE_LABELS[mode]} ` +
+                `(${quickPick.selectedItems.length} of ${quickPick.items.length} test methods)`;
+        };
+
+        const setMode = (newMode: ReviewMode) => {
+            mode = newMode;
+            const items = this.getItems(mode, generatedMethods, existingMethods, targetedTests);
+            quickPick.items = items;
+            quickPick.selectedItems = items.filter(item => item.picked);
+        };
+
+        setMode(mode);
+        update();
+
+        await vscode.commands.executeCommand(
+            'vscode.diff',
+            currentUri,
+            proposedUri,
+            `${fileName} (${existingContent === undefined ? 'New File' : 'Current'} ↔ Proposed)`,
+            { preview: true, preserveFocus: true }
+        );
+
+        const result = await new Promise<ReviewResult | undefined>((resolve) => {
+            quickPick.onDidChangeSelection(() => update());
+            quickPick.onDidTriggerButton((button) => {
+                setMode((button as typeof MODE_BUTTONS[number]).mode);
+                update();
+            });
+            quickPick.onDidAccept(() => resolve({
+                mode,
+                content: getContent(),
+                acceptedMethods: quickPick.selectedItems.map(item => item.method)
+            }));
+            quickPick.onDidHide(() => resolve(undefined));
+            quickPick.show();
+        });
+
+        quickPick.dispose();
+        await this.closeTabs(proposedUri);
+        this.contents.delete(proposedUri.toString());
+        return result;
+    }
+
+    /**
+     * Lists the test methods that can be accepted. When merging, only the
+     * targeted tests are offered (if there are any), and tests whose names
+     * already exist start unchecked.
+     */
+    private getItems(
+        mode: ReviewMode,
+        generatedMethods: string[],
+        existingMethods: string[],
+        targetedTests?: string[]
+    ): MethodItem[] {
+        let methods = generatedMethods;
+        if (mode === 'merge' && targetedTests && targetedTests.length > 0) {
+            methods = generatedMethods.filter(m => targetedTests.includes(m));
+        }
+
+        return methods.map(method => {
+            const exists = existingMethods.includes(method);
+            return {
+                label: method,
+                description: exists
+                    ? (mode === 'merge' ? 'already exists, merging adds a duplicate' : 'replaces the current test')
+                    : 'new',
+                picked: mode !== 'merge' || !exists,
+                method
+            };
+        });
+    }
+
+    private buildContent(
+        mode: ReviewMode,
+        existingContent: string | undefined,
+        generatedContent: string,
+        generatedMethods: string[],
+        acceptedMethods: string[]
+    ): string {
+        const rejected = generatedMethods.filter(m => !acceptedMethods.includes(m));
+        const accepted = removeTestMethods(generatedContent, rejected);
+
+        if (mode !== 'merge' || existingContent === undefined) {
+            return accepted;
+        }
+        if (acceptedMethods.length === 0) {
+            return existingContent;
+        }
+        return mergeTestMethods(mergeImports(existingContent, accepted), accepted);
+    }
+
+    /**
+     * Closes the diff editors showing the given proposal
+     */
+    private async closeTabs(uri: vscode.Uri): Promise<void> {
+        const tabs = vscode.window.tabGroups.all
+            .flatMap(group => group.tabs)
+            .filter(tab =>
+                tab.input instanceof vscode.TabInputTextDiff &&
+                tab.input.modified.toString() === uri.toString()
+            );
+
+        if (tabs.length > 0) {
+            await vscode.window.tabGroups.close(tabs);
+        }
+    }
+
+    /**
+     * Disposes of resources
+     */
+    public dispose(): void {
+        this.contents.clear();
+        this.onDidChangeEmitter.dispose();
+    }
+}
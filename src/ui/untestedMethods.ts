@@ -0,0 +1,169 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { SettingsManager } from '../config/settings';
+import { TestFileWatcher } from '../services/testFileWatcher';
+import {
+    escapeRegExp,
+    extractMethods,
+    findTestsForMethod,
+    isSpringBean,
+    JavaMethod
+} from '../services/javaParser';
+
+/**
+ * A public method of a Spring bean without a matching test
+ */
+interface UntestedMethod {
+    method: JavaMethod;
+    range: vscode.Range;
+    testUri: vscode.Uri;
+}
+
+/**
+ * Offers "Generate unit test for <method>" on public methods of Spring
+ * beans that have no matching test, and optionally flags them as
+ * diagnostics
+ */
+export class UntestedMethodsProvider implements vscode.CodeActionProvider {
+    public static readonly selector: vscode.DocumentSelector = { language: 'java', scheme: 'file' };
+    public static readonly metadata: vscode.CodeActionProviderMetadata = {
+        providedCodeActionKinds: [vscode.CodeActionKind.QuickFix]
+    };
+
+    private static readonly DIAGNOSTIC_SOURCE = 'Test-AutoEvermation';
+    // Delay after the last edit before the diagnostics are updated
+    private static readonly UPDATE_DELAY = 500;
+
+    private testFileWatcher = new TestFileWatcher();
+    private diagnostics = vscode.languages.createDiagnosticCollection('javaTestGenerator.untested');
+    private pendingUpdates = new Map<string, NodeJS.Timeout>();
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private readonly settings: SettingsManager) {
+        this.disposables.push(
+            this.testFileWatcher,
+            this.testFileWatcher.onDidChange((sourceUri) => {
+                const document = vscode.workspace.textDocuments.find(d => d.uri.toString() === sourceUri.toString());
+                if (document) {
+                    this.scheduleUpdate(document, 0);
+                }
+            }),
+            vscode.workspace.onDidOpenTextDocument((document) => this.scheduleUpdate(document, 0)),
+            vscode.workspace.onDidChangeTextDocument((e) => this.scheduleUpdate(e.document, UntestedMethodsProvider.UPDATE_DELAY)),
+            vscode.workspace.onDidCloseTextDocument((document) => this.diagnostics.delete(document.uri)),
+            vscode.workspace.onDidChangeConfiguration((e) => {
+                if (e.affectsConfiguration('javaTestGenerator.flagUntestedMethods')) {
+                    this.updateAll();
+                }
+            })
+        );
+        this.updateAll();
+    }
+
+    public async provideCodeActions(
+        document: vscode.TextDocument,
+        range: vscode.Range | vscode.Selection,
+        context: vscode.CodeActionContext
+    ): Promise<vscode.CodeAction[]> {
+        const untested = (await this.findUntestedMethods(document))
+            .filter(u => u.range.start.line >= range.start.line && u.range.start.line <= range.end.line);
+
+        return untested.map(({ method }) => {
+            const action = new vscode.CodeAction(
+                `Generate unit test for ${method.name}`,
+                vscode.CodeActionKind.QuickFix
+            );
+            action.command = {
+                command: 'javaTestGenerator.generateTest',
+                title: action.title,
+                arguments: [document.uri, undefined, [method.signature]]
+            };
+            action.diagnostics = context.diagnostics.filter(d =>
+                d.source === UntestedMethodsProvider.DIAGNOSTIC_SOURCE &&
+                d.range.start.line === method.startLine - 1
+            );
+            action.isPreferred = action.diagnostics.length > 0;
+            return action;
+        });
+    }
+
+    /**
+     * Lists the public methods of a Spring bean that no test in its
+     * test file targets (see findTestsForMethod)
+     */
+    private async findUntestedMethods(document: vscode.TextDocument): Promise<UntestedMethod[]> {
+        if (document.languageId !== 'java') {
+            return [];
+        }
+
+        const content = document.getText();
+        if (!isSpringBean(content)) {
+            return [];
+        }
+
+        const sourceTestClass = await this.testFileWatcher.readTestClass(document.uri);
+        if (!sourceTestClass) {
+            return [];
+        }
+        const { testUri, testClass } = sourceTestClass;
+
+        return extractMethods(content)
+            .filter(m => m.modifiers.includes('public'))
+            .filter(m => findTestsForMethod(testClass, m.name).length === 0)
+            .map(method => {
+                const line = document.lineAt(method.startLine - 1);
+                const nameIndex = line.text.search(new RegExp(`(?<![\\w$])${escapeRegExp(method.name)}\\s*\\(`));
+                const range = nameIndex >= 0
+                    ? new vscode.Range(line.lineNumber, nameIndex, line.lineNumber, nameIndex + method.name.length)
+                    : line.range;
+                return { method, range, testUri };
+            });
+    }
+
+    private scheduleUpdate(document: vscode.TextDocument, delay: number): void {
+        if (document.languageId !== 'java' || document.uri.scheme !== 'file') {
+            return;
+        }
+
+        const key = document.uri.toString();
+        clearTimeout(this.pendingUpdates.get(key));
+        this.pendingUpdates.set(key, setTimeout(() => {
+            this.pendingUpdates.delete(key);
+            this.update(document).catch((error) => {
+                console.warn('Failed to update untested method diagnostics', error);
+            });
+        }, delay));
+    }
+
+    private updateAll(): void {
+        for (const document of vscode.workspace.textDocuments) {
+            this.scheduleUpdate(document, 0);
+        }
+    }
+
+    private async update(document: vscode.TextDocument): Promise<void> {
+        if (!this.settings.shouldFlagUntestedMethods() || document.isClosed) {
+            this.diagnostics.delete(document.uri);
+            return;
+        }
+
+        const untested = await this.findUntestedMethods(document);
+        this.diagnostics.set(document.uri, untested.map(({ method, range, testUri }) => {
+            const diagnostic = new vscode.Diagnostic(
+                range,
+                `${method.name} has no unit test in ${path.basename(testUri.fsPath)}`,
+                vscode.DiagnosticSeverity.Information
+            );
+            diagnostic.source = UntestedMethodsProvider.DIAGNOSTIC_SOURCE;
+            return diagnostic;
+        }));
+    }
+
+    public dispose(): void {
+        this.pendingUpdates.forEach(timer => clearTimeout(timer));
+        this.pendingUpdates.clear();
+        this.diagnostics.dispose();
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+    }
+}
@@ -0,0 +1,160 @@
+import * as vscode from 'vscode';
+import { SettingsManager } from '../config/settings';
+import {
+    UsageTracker,
+    UsageTotal,
+    summarizeUsage,
+    dayKey,
+    monthKey,
+    formatNumber
+} from '../services/usageTracker';
+
+/**
+ * Webview panel with token usage totals per day, file and model
+ */
+export class UsageReportPanel {
+    public static readonly viewType = 'javaTestGenerator.usageReport';
+
+    // Days listed in the per-day table
+    private static readonly REPORT_DAYS = 30;
+
+    private static current: UsageReportPanel | undefined;
+
+    private panel: vscode.WebviewPanel;
+    private disposables: vscode.Disposable[] = [];
+
+    private constructor(
+        private readonly extensionUri: vscode.Uri,
+        private readonly tracker: UsageTracker,
+        private readonly settings: SettingsManager
+    ) {
+        this.panel = vscode.window.createWebviewPanel(
+            UsageReportPanel.viewType,
+            'Token Usage',
+            vscode.ViewColumn.Active,
+            { localResourceRoots: [vscode.Uri.joinPath(extensionUri, 'media')] }
+        );
+        this.panel.iconPath = vscode.Uri.joinPath(extensionUri, 'media', 'icon.svg');
+
+        this.disposables.push(
+            tracker.onDidChange(() => this.update()),
+            settings.onDidChange(() => this.update()),
+            this.panel.onDidDispose(() => this.dispose())
+        );
+        this.update();
+    }
+
+    /**
+     * Shows the report, reusing the open panel
+     */
+    public static show(extensionUri: vscode.Uri, tracker: UsageTracker, settings: SettingsManager): void {
+        if (UsageReportPanel.current) {
+            UsageReportPanel.current.panel.reveal();
+            return;
+        }
+        UsageReportPanel.current = new UsageReportPanel(extensionUri, tracker, settings);
+    }
+
+    private update(): void {
+        this.panel.webview.html = this.getHtmlContent(this.panel.webview);
+    }
+
+    private getHtmlContent(webview: vscode.Webview): string {
+        const styleUri = webview.asWebviewUri(
+            vscode.Uri.joinPath(this.extensionUri, 'media', 'usageReport.css')
+        );
+
+        const now = Date.now();
+        const records = this.tracker.getRecords();
+        const month = monthKey(now);
+        const monthRecords = records.filter(r => monthKey(r.timestamp) === month);
+        const firstDay = dayKey(now - (UsageReportPanel.REPORT_DAYS - 1) * 24 * 60 * 60 * 1000);
+        const recentRecords = records.filter(r => dayKey(r.timestamp) >= firstDay);
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource};">
+    <title>Token Usage</title>
+    <link rel="stylesheet" href="${styleUri}">
+</head>
+<body>
+    <h1>Token Usage</h1>
+    ${this.getQuotaHtml(monthRecords.reduce((sum, r) => sum + r.tokensUsed, 0), monthRecords.length)}
+    ${records.length === 0
+        ? '<p class="empty">No generations recorded yet.</p>'
+        : `<h2>Per Day (last ${UsageReportPanel.REPORT_DAYS} days)</h2>
+    ${renderTable('Day', summarizeUsage(recentRecords, 'day'))}
+    <h2>Per File (this month)</h2>
+    ${renderTable('File', summarizeUsage(monthRecords, 'file'))}
+    <h2>Per Model (this month)</h2>
+    ${renderTable('Model', summarizeUsage(monthRecords, 'model'))}`}
+</body>
+</html>`;
+    }
+
+    private getQuotaHtml(monthTokens: number, monthRequests: number): string {
+        const summary = `<p>This month: <strong>${formatNumber(monthTokens)}</strong> tokens in ${formatNumber(monthRequests)} request(s)</p>`;
+        const quota = this.settings.getMonthlyTokenQuota();
+        if (quota <= 0) {
+            return summary;
+        }
+
+        const percent = Math.round(monthTokens / quota * 100);
+        const level = percent > 100
+            ? 'exceeded'
+            : percent >= this.settings.getQuotaWarningThreshold() ? 'warning' : 'ok';
+
+        return `${summary}
+    <div class="quota ${level}">
+        <progress max="100" value="${Math.min(percent, 100)}"></progress>
+        <span>${percent}% of the monthly quota (${formatNumber(quota)} tokens)</span>
+    </div>`;
+    }
+
+    public dispose(): void {
+        UsageReportPanel.current = undefined;
+        this.panel.dispose();
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+    }
+}
+
+function renderTable(label: string, totals: UsageTotal[]): string {
+    if (totals.length === 0) {
+        return '<p class="empty">No usage in this period.</p>';
+    }
+
+    const rows = totals.map(t => `
+        <tr>
+            <td>${escapeHtml(t.key)}</td>
+            <td class="number">${formatNumber(t.requests)}</td>
+            <td class="number">${formatNumber(t.tokensUsed)}</td>
+            <td class="number">${(t.generationTime / t.requests / 1000).toFixed(1)} s</td>
+            <td class="number">${formatNumber(t.retryCount)}</td>
+        </tr>`).join('');
+
+    return `<table>
+        <thead>
+            <tr>
+                <th>${label}</th>
+                <th class="number">Requests</th>
+                <th class="number">Tokens</th>
+                <th class="number">Avg. Time</th>
+                <th class="number">Retries</th>
+            </tr>
+        </thead>
+        <tbody>${rows}
+        </tbody>
+    </table>`;
+}
+
+function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}